@@ -0,0 +1,27 @@
+#!/bin/sh
+# tour.sh - Deviser 終端機導覽
+# 執行方式: ./tour.sh、sh tour.sh 或 source tour.sh
+
+DELAY=1
+
+if [ "$LANG" = "zh_TW.UTF-8" ]; then
+  TITLE="=== Deviser 終端機導覽 ==="
+  INTRO="這是一個模擬的 Linux 終端機，以下目錄值得一看："
+  OUTRO="導覽結束！輸入 help 查看所有可用命令。"
+else
+  TITLE="=== Deviser Terminal Tour ==="
+  INTRO="This is a simulated Linux terminal. These directories are worth a look:"
+  OUTRO="Tour complete! Type help to see all available commands."
+fi
+
+echo "$TITLE"
+sleep $DELAY
+echo "$INTRO"
+
+for dir in about skills projects contact; do
+  sleep $DELAY
+  echo "  cd ~/$dir"
+done
+
+sleep $DELAY
+echo "$OUTRO"
@@ -0,0 +1,163 @@
+// 內容管線：建置時將 content/ 資料夾轉換為終端機的虛擬檔案系統，以 virtual:file-system 模組提供
+// - content/ 對應主目錄，子資料夾與檔案依原本的結構放入檔案系統
+// - 檔名帶有語言的檔案（如 bio.zh_TW.txt 與 bio.en_US.txt）合併為一個多語言檔案 bio.txt
+// - content/manifest.json 以相對路徑指定權限、所有者與群組，未指定時使用預設值
+// - 修改時間取自檔案的 mtime
+import fs from 'node:fs'
+import path from 'node:path'
+import type { Plugin } from 'vite'
+import type { SerializedItem } from '../src/shell/types'
+
+const MODULE_ID = 'virtual:file-system'
+const RESOLVED_MODULE_ID = `\0${MODULE_ID}`
+const MANIFEST_FILE = 'manifest.json'
+
+// 檔名中的語言標記，zh_TW 為主要內容，en_US 為英文內容
+const LOCALIZED_NAME_PATTERN = /^(.+?)\.(zh_TW|en_US)((?:\.[^.]+)?)$/
+
+interface ManifestEntry {
+  permissions?: string
+  owner?: string
+  group?: string
+}
+
+const DEFAULT_OWNERSHIP = { owner: 'deviser', group: 'users' }
+const DEFAULT_FILE_PERMISSIONS = 'rw-r--r--'
+const DEFAULT_DIRECTORY_PERMISSIONS = 'rwxr-xr-x'
+
+const readManifest = (directory: string): Record<string, ManifestEntry> => {
+  const manifestPath = path.join(directory, MANIFEST_FILE)
+  if (!fs.existsSync(manifestPath)) {
+    return {}
+  }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as Record<string, ManifestEntry>
+  for (const [entryPath, entry] of Object.entries(manifest)) {
+    if (entry.permissions !== undefined && !/^([r-][w-][x-]){3}$/.test(entry.permissions)) {
+      throw new Error(`${MANIFEST_FILE}: ${entryPath}: invalid permissions '${entry.permissions}'`)
+    }
+  }
+  return manifest
+}
+
+// 將檔案文字切分成行，忽略最後的換行符號
+const readLines = (filePath: string): string[] => {
+  const text = fs.readFileSync(filePath, 'utf8').replace(/\r\n/g, '\n')
+  return text === '' ? [] : text.replace(/\n$/, '').split('\n')
+}
+
+// 讀取 content/ 資料夾，返回主目錄
+export const readContent = (directory: string): SerializedItem => {
+  const manifest = readManifest(directory)
+  const usedEntries = new Set<string>()
+
+  const getAttributes = (relativePath: string, defaultPermissions: string) => {
+    const entry = manifest[relativePath] ?? {}
+    usedEntries.add(relativePath)
+    return {
+      permissions: entry.permissions ?? defaultPermissions,
+      owner: entry.owner ?? DEFAULT_OWNERSHIP.owner,
+      group: entry.group ?? DEFAULT_OWNERSHIP.group
+    }
+  }
+
+  const readDirectory = (relativePath: string): SerializedItem => {
+    const absolutePath = path.join(directory, relativePath)
+    const content: Record<string, SerializedItem> = {}
+    const localizedFiles = new Map<string, Partial<Record<'zh_TW' | 'en_US', string>>>()
+
+    for (const entry of fs.readdirSync(absolutePath, { withFileTypes: true })) {
+      const entryPath = relativePath ? `${relativePath}/${entry.name}` : entry.name
+      if (entryPath === MANIFEST_FILE) {
+        continue
+      }
+      if (entry.isDirectory()) {
+        content[entry.name] = readDirectory(entryPath)
+        continue
+      }
+
+      const match = LOCALIZED_NAME_PATTERN.exec(entry.name)
+      if (!match) {
+        const filePath = path.join(directory, entryPath)
+        content[entry.name] = {
+          type: 'file',
+          content: readLines(filePath),
+          ...getAttributes(entryPath, DEFAULT_FILE_PERMISSIONS),
+          lastModified: fs.statSync(filePath).mtimeMs
+        }
+        continue
+      }
+
+      // 同名的多語言檔案收集後再合併
+      const name = `${match[1]}${match[3]}`
+      const versions = localizedFiles.get(name) ?? {}
+      versions[match[2] as 'zh_TW' | 'en_US'] = path.join(directory, entryPath)
+      localizedFiles.set(name, versions)
+    }
+
+    for (const [name, versions] of localizedFiles) {
+      // 只有一種語言時作為所有語言的內容
+      const primary = versions.zh_TW ?? versions.en_US!
+      const english = versions.zh_TW && versions.en_US
+      content[name] = {
+        type: 'file',
+        content: readLines(primary),
+        ...(english ? { contentEn: readLines(english) } : {}),
+        ...getAttributes(relativePath ? `${relativePath}/${name}` : name, DEFAULT_FILE_PERMISSIONS),
+        lastModified: Math.max(...[primary, english].filter((file): file is string => !!file).map(file => fs.statSync(file).mtimeMs))
+      }
+    }
+
+    return {
+      type: 'directory',
+      content,
+      ...getAttributes(relativePath, DEFAULT_DIRECTORY_PERMISSIONS),
+      lastModified: fs.statSync(absolutePath).mtimeMs
+    }
+  }
+
+  const home = readDirectory('')
+
+  // 清單中指定了不存在的路徑時視為錯誤，避免拼錯的路徑被默默忽略
+  const unknownEntries = Object.keys(manifest).filter(entryPath => !usedEntries.has(entryPath))
+  if (unknownEntries.length > 0) {
+    throw new Error(`${MANIFEST_FILE}: no such content: ${unknownEntries.join(', ')}`)
+  }
+  return home
+}
+
+export default function contentPlugin(directory = 'content'): Plugin {
+  let contentDirectory = directory
+
+  return {
+    name: 'terminal-content',
+    configResolved(config) {
+      contentDirectory = path.resolve(config.root, directory)
+    },
+    resolveId(id) {
+      return id === MODULE_ID ? RESOLVED_MODULE_ID : undefined
+    },
+    load(id) {
+      if (id !== RESOLVED_MODULE_ID) {
+        return undefined
+      }
+      return `export default ${JSON.stringify(readContent(contentDirectory))};`
+    },
+    // 開發時內容變更後重新產生檔案系統並重新載入頁面
+    configureServer(server) {
+      server.watcher.add(contentDirectory)
+      const reload = (file: string) => {
+        if (!file.startsWith(contentDirectory + path.sep)) {
+          return
+        }
+        const module = server.moduleGraph.getModuleById(RESOLVED_MODULE_ID)
+        if (module) {
+          server.moduleGraph.invalidateModule(module)
+        }
+        server.ws.send({ type: 'full-reload' })
+      }
+      server.watcher.on('add', reload)
+      server.watcher.on('change', reload)
+      server.watcher.on('unlink', reload)
+    }
+  }
+}
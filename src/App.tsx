@@ -2,6 +2,7 @@ import { useState } from 'react'
 import styled, { ThemeProvider } from 'styled-components'
 import Terminal from './components/Terminal'
 import { lightTheme, darkTheme, GlobalStyles } from './themes'
+import { loadTheme, saveTheme } from './shell/storage'
 import './App.css'
 
 const AppContainer = styled.div`
@@ -26,10 +27,12 @@ const TerminalContainer = styled.div`
 `
 
 function App() {
-  const [theme, setTheme] = useState('dark')
+  const [theme, setTheme] = useState(loadTheme)
   
   const toggleTheme = () => {
-    setTheme(theme === 'light' ? 'dark' : 'light')
+    const nextTheme = theme === 'light' ? 'dark' : 'light'
+    setTheme(nextTheme)
+    saveTheme(nextTheme)
   }
   
   return (
@@ -0,0 +1,933 @@
+// 檔案與目錄命令：ls、cd、cat、pwd、find、mkdir、touch、rm、rmdir、mv、cp、chmod 與 chown
+// 路徑都透過 shell.fs 解析，非完整功能模式下隱藏的資料夾對讀取的命令視為不存在
+import React from 'react';
+import { CommandContext, CommandResult, fail, FileSystemApi, getDisplayWidth, Language, registerCommand, succeed } from './registry';
+import { DirectoryText, FileText, ListingRow } from '../components/Listing';
+import { FindExpressionError, FindQuery, FindTest, hasAction, parseFindQuery } from '../shell/find';
+import { addItem, isWithin, removeItem } from '../shell/filesystem';
+import { matchGlob } from '../shell/glob';
+import { splitLines } from '../shell/lines';
+import { formatSize, formatTime, getBlockCount, getItemSize, getLinkCount, layoutColumns } from '../shell/listing';
+import { getMessage } from '../shell/messages';
+import { parseMode } from '../shell/mode';
+import { formatPath } from '../shell/path';
+import { DirectoryItem, FileSystemItem } from '../shell/types';
+
+// 檔案操作的錯誤訊息，如 "rm: a.txt: 沒有此檔案或目錄"
+const fileError = (language: Language, command: string, path: string, key: string, ...params: string[]): CommandResult => {
+  return { type: 'error', content: `${command}: ${path}: ${getMessage(language, key, ...params)}` };
+};
+
+// 取得路徑的上層目錄，不存在或不是目錄時返回 null
+const getParentDirectory = (fs: FileSystemApi, parts: string[]): DirectoryItem | null => {
+  const parent = parts.length > 0 ? fs.getItem(parts.slice(0, -1)) : null;
+  return parent?.type === 'directory' ? parent : null;
+};
+
+// 複製項目到目錄中的指定名稱，目錄會遞迴複製並與既有的目錄合併；錯誤會加入 errors
+const copyItem = (context: CommandContext, source: FileSystemItem, directory: DirectoryItem, name: string, path: string, errors: CommandResult[]) => {
+  const { language, shell: { fs } } = context;
+  if (!fs.checkPermission(source, 'read')) {
+    errors.push(fileError(language, 'cp', path, 'err_perm_denied'));
+    return;
+  }
+  
+  const existing = Object.prototype.hasOwnProperty.call(directory.content, name) ? directory.content[name] : null;
+  if (source.type === 'file') {
+    if (existing?.type === 'directory') {
+      errors.push(fileError(language, 'cp', path, 'err_is_directory'));
+    } else if (!fs.checkPermission(existing ?? directory, 'write')) {
+      errors.push(fileError(language, 'cp', path, 'err_perm_denied'));
+    } else if (existing) {
+      existing.content = [...source.content];
+      existing.contentEn = source.contentEn && [...source.contentEn];
+      existing.lastModified = new Date();
+    } else {
+      addItem(directory, name, { ...source, content: [...source.content], contentEn: source.contentEn && [...source.contentEn], ...fs.getOwnership(), lastModified: new Date() });
+    }
+    return;
+  }
+  
+  let target = existing;
+  if (target?.type === 'file') {
+    errors.push(fileError(language, 'cp', path, 'err_not_directory'));
+    return;
+  }
+  if (!target) {
+    if (!fs.checkPermission(directory, 'write')) {
+      errors.push(fileError(language, 'cp', path, 'err_perm_denied'));
+      return;
+    }
+    target = { type: 'directory', content: {}, permissions: source.permissions, ...fs.getOwnership(), lastModified: new Date() };
+    addItem(directory, name, target);
+  }
+  for (const [childName, child] of Object.entries(source.content)) {
+    copyItem(context, child, target, childName, `${path}/${childName}`, errors);
+  }
+};
+
+// cat ~/resume.pdf 模擬下載，逐步顯示下載進度並返回完成訊息
+const downloadResume = async ({ output, language, shell }: CommandContext): Promise<CommandResult[]> => {
+  // 立即顯示初始訊息
+  output([
+    { type: 'system', content: language === 'zh_TW' ? `準備下載 resume.pdf...` : `Preparing to download resume.pdf...` },
+    { type: 'system', content: `[          ] 0%` }
+  ]);
+  
+  // 延遲後模擬下載進度，每200毫秒輸出一次進度；進度透過 output 附加，不會覆蓋同一命令列中其他命令的輸出
+  await shell.sleep(500);
+  output([{ type: 'system', content: language === 'zh_TW' ? `正在下載 resume.pdf...` : `Downloading resume.pdf...` }]);
+  for (let progress = 10; progress <= 100; progress += 10) {
+    await shell.sleep(200);
+    output([{ type: 'system', content: `[${'='.repeat(progress / 10)}${' '.repeat(10 - progress / 10)}] ${progress}%` }]);
+  }
+  
+  // 下載完成後顯示成功訊息
+  await shell.sleep(700);
+  return [
+    { type: 'success', content: language === 'zh_TW' ? `下載完成！檔案已儲存至您的系統。` : `Download complete! File saved to your system.` },
+    { type: 'system', content: language === 'zh_TW' ? `[PDF 文件內容 - 顯示為二進制]` : `[PDF content - displayed as binary]` }
+  ];
+};
+
+registerCommand({
+  name: 'ls',
+  usage: { zh_TW: 'ls [-aCdFhlrRSt1] [路徑]...', en_US: 'ls [-aCdFhlrRSt1] [path]...' },
+  summary: { zh_TW: '列出目錄內容', en_US: 'List directory contents' },
+  manual: {
+    description: [
+      { zh_TW: '列出指定路徑的資訊（預設為目前的目錄）。', en_US: 'List information about the paths (the current directory by default).' },
+      { zh_TW: '目錄排在檔案之前，並以字母順序排列。選項可以任意組合，如 -lhtr。', en_US: 'Directories are listed before files, each sorted alphabetically. Options can be combined in any order, e.g. -lhtr.' },
+      { zh_TW: '-l、-C 與 -1 同時出現時以最後一個為準。', en_US: 'When -l, -C and -1 are combined, the last one wins.' }
+    ],
+    options: [
+      { flags: '-a', description: { zh_TW: '不隱藏以 . 開頭的項目', en_US: 'do not ignore entries starting with .' } },
+      { flags: '-C', description: { zh_TW: '依終端機寬度分欄列出（預設）', en_US: 'list entries by columns (the default)' } },
+      { flags: '-d', description: { zh_TW: '列出目錄本身，而不是目錄的內容', en_US: 'list directories themselves, not their contents' } },
+      { flags: '-F', description: { zh_TW: '在目錄名稱後加上 /（本終端機預設即會加上）', en_US: 'append / to directory names (always done in this terminal)' } },
+      { flags: '-h', description: { zh_TW: '與 -l 一起使用時以 K、M、G 顯示大小', en_US: 'with -l, print sizes like 1K 234M 2G' } },
+      { flags: '-l', description: { zh_TW: '使用較長格式列出', en_US: 'use a long listing format' } },
+      { flags: '-r', description: { zh_TW: '反轉排序順序', en_US: 'reverse order while sorting' } },
+      { flags: '-R', description: { zh_TW: '遞迴列出子目錄', en_US: 'list subdirectories recursively' } },
+      { flags: '-S', description: { zh_TW: '依檔案大小排序，最大的在前', en_US: 'sort by file size, largest first' } },
+      { flags: '-t', description: { zh_TW: '依修改時間排序，最新的在前', en_US: 'sort by modification time, newest first' } },
+      { flags: '-1', description: { zh_TW: '每行列出一個項目', en_US: 'list one file per line' } }
+    ]
+  },
+  mode: 'basic',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    // 選項可以任意組合，-- 之後的參數都視為路徑；輸出格式（-l、-C、-1）以最後一個為準
+    const flags = new Set<string>();
+    let format: 'columns' | 'long' | 'single' = 'columns';
+    const operands: string[] = [];
+    let endOfOptions = false;
+    for (const arg of args) {
+      if (!endOfOptions && arg === '--') {
+        endOfOptions = true;
+      } else if (!endOfOptions && arg.startsWith('-') && arg.length > 1) {
+        for (const flag of arg.substring(1)) {
+          if (!'aCdFhlrRSt1'.includes(flag)) {
+            return fail([{ type: 'error', content: `ls: ${getMessage(language, 'err_invalid_option')} -- '${flag}'` }], 2);
+          }
+          flags.add(flag);
+          format = flag === 'l' ? 'long' : flag === 'C' ? 'columns' : flag === '1' ? 'single' : format;
+        }
+      } else {
+        operands.push(arg);
+      }
+    }
+    const showDetails = format === 'long';
+    
+    const getSize = (item: FileSystemItem) => getItemSize(item, item.type === 'file' ? fs.getContent(item) : []);
+    
+    // 預設依名稱排序並將目錄排在前面，-t 依修改時間、-S 依大小排序，-r 反轉順序
+    const sortEntries = (entries: [string, FileSystemItem][]): [string, FileSystemItem][] => {
+      const sorted = [...entries].sort(([aName, aItem], [bName, bItem]) => {
+        const difference = flags.has('S') ? getSize(bItem) - getSize(aItem)
+          : flags.has('t') ? bItem.lastModified.getTime() - aItem.lastModified.getTime()
+          : Number(bItem.type === 'directory') - Number(aItem.type === 'directory');
+        return difference || aName.localeCompare(bName);
+      });
+      return flags.has('r') ? sorted.reverse() : sorted;
+    };
+    
+    const formatName = (name: string, item: FileSystemItem) => {
+      return item.type === 'directory' ? <DirectoryText>{name}/</DirectoryText> : <FileText>{name}</FileText>;
+    };
+    
+    // 將項目格式化為輸出結果，列出目錄內容時 -l 會先顯示區塊總數
+    const formatEntries = (entries: [string, FileSystemItem][], isDirectoryListing: boolean): CommandResult[] => {
+      if (entries.length === 0) {
+        return isDirectoryListing && showDetails ? [{ type: 'success', content: 'total 0' }] : [];
+      }
+      
+      const names = entries.map(([name, item]) => (item.type === 'directory' ? `${name}/` : name));
+      
+      if (showDetails) {
+        const columns = entries.map(([, item]) => ({
+          links: String(getLinkCount(item)),
+          size: formatSize(getSize(item), flags.has('h')),
+          time: formatTime(item.lastModified)
+        }));
+        const width = (values: string[]) => Math.max(...values.map(value => getDisplayWidth(value)));
+        const linkWidth = width(columns.map(column => column.links));
+        const ownerWidth = width(entries.map(([, item]) => item.owner));
+        const groupWidth = width(entries.map(([, item]) => item.group));
+        const sizeWidth = width(columns.map(column => column.size));
+        
+        const rows = entries.map(([, item], index) => {
+          const { links, size, time } = columns[index];
+          return {
+            mode: `${item.type === 'directory' ? 'd' : '-'}${item.permissions}`,
+            links: links.padStart(linkWidth),
+            owner: item.owner.padEnd(ownerWidth),
+            group: item.group.padEnd(groupWidth),
+            details: `${size.padStart(sizeWidth)} ${time}`
+          };
+        });
+        const lines = rows.map((row, index) => `${row.mode} ${row.links} ${row.owner} ${row.group} ${row.details} ${names[index]}`);
+        const total = `total ${entries.reduce((sum, [, item]) => sum + getBlockCount(getSize(item)), 0)}`;
+        
+        return [{
+          type: 'success',
+          content: (
+            <>
+              {isDirectoryListing && <ListingRow>{total}</ListingRow>}
+              {rows.map((row, index) => (
+                <ListingRow key={names[index]}>
+                  <span style={{ color: '#6c71c4' }}>{row.mode}</span>
+                  {` ${row.links} `}<span style={{ color: '#859900' }}>{row.owner}</span>
+                  {' '}<span style={{ color: '#2aa198' }}>{row.group}</span>
+                  {` ${row.details} `}{formatName(...entries[index])}
+                </ListingRow>
+              ))}
+            </>
+          ),
+          text: [...(isDirectoryListing ? [total] : []), ...lines].join('\n')
+        }];
+      }
+      
+      // 一般列表依終端機寬度排成多欄，-1 時每行一個項目；管道中以每行一個項目的純文字輸出
+      const widths = names.map(name => getDisplayWidth(name));
+      const { rows, columnWidths } = format === 'single'
+        ? { rows: names.map((_, index) => [index]), columnWidths: [0] }
+        : layoutColumns(widths, shell.getTerminalColumns());
+      return [{
+        type: 'success',
+        content: (
+          <>
+            {rows.map(row => (
+              <ListingRow key={row[0]}>
+                {row.map((index, column) => (
+                  <React.Fragment key={index}>
+                    {formatName(...entries[index])}
+                    {column < row.length - 1 && ' '.repeat(columnWidths[column] - widths[index])}
+                  </React.Fragment>
+                ))}
+              </ListingRow>
+            ))}
+          </>
+        ),
+        text: names.join('\n')
+      }];
+    };
+    
+    // 目錄中要列出的項目，不含隱藏檔案（-a 除外）與非完整功能模式下被隱藏的資料夾
+    const getDirectoryEntries = (parts: string[], directory: DirectoryItem): [string, FileSystemItem][] => {
+      return sortEntries(Object.entries(directory.content)
+        .filter(([name]) => flags.has('a') || !name.startsWith('.'))
+        .filter(([name]) => !fs.isRestricted([...parts, name])));
+    };
+    
+    // 沒有指定路徑時列出目前目錄；與 bash 相同，先列出檔案，再依序列出目錄的內容
+    const targets = operands.length > 0 ? operands : ['.'];
+    const lsResults: CommandResult[] = [];
+    const fileEntries: [string, FileSystemItem][] = [];
+    const directories: [string, string[], DirectoryItem][] = [];
+    let lsStatus = 0;
+    for (const target of targets) {
+      const parts = fs.resolve(target);
+      const fsItem = fs.isRestricted(parts) ? null : fs.getItem(parts);
+      if (!parts || !fsItem) {
+        lsResults.push({ type: 'error', content: `ls: ${target}: ${getMessage(language, 'err_no_such_file')}` });
+        lsStatus = 2;
+      } else if (fsItem.type === 'file' || flags.has('d')) {
+        fileEntries.push([target, fsItem]);
+      } else {
+        directories.push([target, parts, fsItem]);
+      }
+    }
+    
+    const sections: CommandResult[][] = [];
+    if (fileEntries.length > 0) {
+      sections.push(formatEntries(sortEntries(fileEntries), false));
+    }
+    
+    // 列出目錄內容需要讀取與執行權限；-R 時依序遞迴列出子目錄
+    const showHeaders = targets.length > 1 || flags.has('R');
+    const listDirectory = (target: string, parts: string[], directory: DirectoryItem) => {
+      if (!fs.checkPermission(directory, 'read') || !fs.checkPermission(directory, 'execute')) {
+        lsResults.push({ type: 'error', content: `ls: ${target}: ${getMessage(language, 'err_perm_denied')}` });
+        lsStatus = 2;
+        return;
+      }
+      
+      const entries = getDirectoryEntries(parts, directory);
+      sections.push([
+        ...(showHeaders ? [{ type: 'system' as const, content: `${target}:` }] : []),
+        ...formatEntries(entries, true)
+      ]);
+      if (flags.has('R')) {
+        for (const [name, item] of entries) {
+          if (item.type === 'directory') {
+            listDirectory(`${target.replace(/\/$/, '')}/${name}`, [...parts, name], item);
+          }
+        }
+      }
+    };
+    for (const [target, parts, directory] of directories) {
+      listDirectory(target, parts, directory);
+    }
+    
+    // 各段輸出之間以空行分隔
+    sections.forEach((section, index) => {
+      if (index > 0) {
+        lsResults.push({ type: 'success', content: '' });
+      }
+      lsResults.push(...section);
+    });
+    return { results: lsResults, exitCode: lsStatus };
+  }
+});
+
+registerCommand({
+  name: 'cd',
+  usage: { zh_TW: 'cd [目錄]', en_US: 'cd [dir]' },
+  summary: { zh_TW: '切換目錄', en_US: 'Change directory' },
+  manual: {
+    description: [
+      { zh_TW: '變更當前工作目錄為指定的目錄。', en_US: 'Change the current working directory to the specified directory.' },
+      { zh_TW: '預設的目錄是 HOME shell 變數的值，cd - 返回上一個目錄。', en_US: 'The default directory is the value of the HOME shell variable; cd - returns to the previous directory.' }
+    ]
+  },
+  mode: 'basic',
+  completion: 'directory',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    // cd 無參數時切換到 HOME 目錄
+    if (args.length === 0 && shell.getVariable('HOME') === undefined) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? 'cd: 未設定 HOME' : 'cd: HOME not set' }]);
+    }
+    
+    const target = args[0] ?? shell.getVariable('HOME');
+    
+    // 處理 - 返回上一個目錄
+    if (target === '-') {
+      const previousDirectory = shell.previousDirectory;
+      if (!previousDirectory) {
+        return fail([{ type: 'error', content: language === 'zh_TW' ? 'cd: 沒有先前的目錄' : 'cd: no previous directory' }]);
+      }
+      
+      shell.changeDirectory(previousDirectory);
+      return succeed([{ type: 'system', content: previousDirectory }]);
+    }
+    
+    // 在非完整功能模式下限制訪問特定目錄
+    const parts = fs.resolve(target);
+    const dir = fs.isRestricted(parts) ? null : fs.getItem(parts);
+    if (!parts || !dir) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? `cd: ${target}: 沒有此目錄` : `cd: ${target}: No such directory` }]);
+    }
+    if (dir.type !== 'directory') {
+      return fail([{ type: 'error', content: `cd: ${target}: ${getMessage(language, 'err_not_directory')}` }]);
+    }
+    if (!fs.checkPermission(dir, 'read') || !fs.checkPermission(dir, 'execute')) {
+      return fail([{ type: 'error', content: `cd: ${target}: ${getMessage(language, 'err_perm_denied')}` }]);
+    }
+    
+    shell.changeDirectory(formatPath(parts));
+    return succeed();
+  }
+});
+
+registerCommand({
+  name: 'cat',
+  usage: { zh_TW: 'cat [檔案...]', en_US: 'cat [file...]' },
+  summary: { zh_TW: '顯示檔案內容', en_US: 'Display file contents' },
+  mode: 'basic',
+  handler: async context => {
+    const { args, stdin, output, language, shell: { fs } } = context;
+    // 沒有檔案參數時輸出標準輸入
+    if (args.length === 0 && stdin !== null) {
+      return succeed(splitLines(stdin).map(line => ({ type: 'success' as const, content: line })));
+    }
+    
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? 'cat: 缺少檔案名稱' : 'cat: missing file name' }]);
+    }
+    
+    // 依序輸出每個檔案，無法讀取的檔案各自回報錯誤並繼續處理其餘的檔案
+    const results: CommandResult[] = [];
+    let exitCode = 0;
+    for (const file of args) {
+      // 在非完整功能模式下隱藏目錄中的檔案視為不存在
+      const parts = fs.resolve(file);
+      const fileItem = fs.isRestricted(parts) ? null : fs.getItem(parts);
+      if (!parts || !fileItem) {
+        results.push({ type: 'error', content: language === 'zh_TW' ? `cat: ${file}: 檔案不存在` : `cat: ${file}: No such file` });
+        exitCode = 1;
+        continue;
+      }
+      if (fileItem.type === 'directory' || !fs.checkPermission(fileItem, 'read')) {
+        results.push({ type: 'error', content: `cat: ${file}: ${getMessage(language, fileItem.type === 'directory' ? 'err_is_directory' : 'err_perm_denied')}` });
+        exitCode = 1;
+        continue;
+      }
+      
+      // 特殊處理 PDF 檔案下載，先送出前面檔案的內容再顯示下載進度
+      if (formatPath(parts) === '~/resume.pdf') {
+        output(results.splice(0));
+        results.push(...await downloadResume(context));
+        continue;
+      }
+      
+      results.push(...fs.getContent(fileItem).map(line => ({ 
+        type: 'success' as const, 
+        content: line 
+      })));
+    }
+    return { results, exitCode };
+  }
+});
+
+registerCommand({
+  name: 'pwd',
+  usage: 'pwd',
+  summary: { zh_TW: '顯示當前路徑', en_US: 'Print working directory' },
+  mode: 'basic',
+  handler: ({ shell }) => {
+    return succeed([
+      { type: 'success', content: shell.getVariable('PWD') ?? '' },
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'find',
+  usage: { zh_TW: 'find [路徑]... [表達式]', en_US: 'find [path]... [expression]' },
+  summary: { zh_TW: '搜尋檔案或目錄', en_US: 'Search files or directories' },
+  manual: {
+    description: [
+      { zh_TW: '從每個路徑（預設為目前的目錄）開始遞迴搜尋，列出符合表達式中所有測試的項目。', en_US: 'Walk each path (the current directory by default) and list the entries matching every test in the expression.' },
+      { zh_TW: '進入目錄需要讀取與執行權限，與 ls 相同。', en_US: 'Descending into a directory requires read and execute permission, as with ls.' }
+    ],
+    options: [
+      { flags: '-name PATTERN', description: { zh_TW: '名稱符合萬用字元模式，如 "*.md"（-iname 不區分大小寫）', en_US: 'name matches the wildcard pattern, e.g. "*.md" (-iname ignores case)' } },
+      { flags: '-type f|d', description: { zh_TW: '項目是檔案 (f) 或目錄 (d)', en_US: 'entry is a file (f) or a directory (d)' } },
+      { flags: '-maxdepth n', description: { zh_TW: '最多進入 n 層子目錄', en_US: 'descend at most n levels of directories' } },
+      { flags: '-mindepth n', description: { zh_TW: '不處理少於 n 層的項目', en_US: 'do not apply tests at levels less than n' } },
+      { flags: '-print', description: { zh_TW: '列出路徑，表達式沒有動作時預設使用', en_US: 'print the path; the default when there is no action' } },
+      { flags: '-exec CMD {} ;', description: { zh_TW: '對每個項目執行命令，{} 替換為路徑；以 + 結束時所有路徑一起傳入', en_US: 'run the command for each entry with {} replaced by its path; ending with + passes all paths at once' } }
+    ]
+  },
+  mode: 'full',
+  handler: async ({ args, output, language, shell }) => {
+    const { fs } = shell;
+    let query: FindQuery;
+    try {
+      query = parseFindQuery(args);
+    } catch (error) {
+      if (error instanceof FindExpressionError) {
+        const keys = { unknown: 'err_find_unknown', missing: 'err_find_missing', invalid: 'err_find_invalid' };
+        return fail([{ type: 'error', content: getMessage(language, keys[error.kind], error.predicate, error.argument) }]);
+      }
+      throw error;
+    }
+    
+    const results: CommandResult[] = [];
+    const batches = new Map<FindTest, string[]>();
+    let findStatus = 0;
+    
+    // 執行 -exec 的命令，{} 替換為路徑；先送出累積的輸出以保持順序
+    const runExec = async (command: string[], paths: string[]): Promise<boolean> => {
+      output(results.splice(0));
+      const argv = command.flatMap(arg => (arg === '{}' ? paths : [arg.split('{}').join(paths.join(' '))]));
+      const execOutput = await shell.execute(argv, null, output);
+      output(execOutput.results);
+      return execOutput.exitCode === 0;
+    };
+    
+    // 依序檢查每個測試，任何測試不符合時停止；表達式沒有動作時列出符合的路徑
+    const evaluate = async (path: string, item: FileSystemItem) => {
+      const name = path === '/' ? '/' : path.replace(/\/+$/, '').split('/').pop() ?? path;
+      for (const test of query.tests) {
+        if (test.kind === 'name' && !matchGlob(test.pattern, name, test.ignoreCase)) {
+          return;
+        }
+        if (test.kind === 'type' && (test.type === 'd') !== (item.type === 'directory')) {
+          return;
+        }
+        if (test.kind === 'print') {
+          results.push({ type: 'success', content: path });
+        }
+        if (test.kind === 'exec') {
+          if (test.batch) {
+            batches.set(test, [...(batches.get(test) ?? []), path]);
+          } else if (!(await runExec(test.command, [path]))) {
+            return;
+          }
+        }
+      }
+      if (!hasAction(query)) {
+        results.push({ type: 'success', content: path });
+      }
+    };
+    
+    // 先處理目錄本身再依名稱順序進入其內容，非完整功能模式下隱藏的資料夾會被略過
+    const walk = async (path: string, parts: string[], item: FileSystemItem, depth: number) => {
+      if (depth >= query.minDepth) {
+        await evaluate(path, item);
+      }
+      if (item.type !== 'directory' || depth >= query.maxDepth) {
+        return;
+      }
+      if (!fs.checkPermission(item, 'read') || !fs.checkPermission(item, 'execute')) {
+        results.push(fileError(language, 'find', path, 'err_perm_denied'));
+        findStatus = 1;
+        return;
+      }
+      for (const name of Object.keys(item.content).sort((a, b) => a.localeCompare(b))) {
+        if (!fs.isRestricted([...parts, name])) {
+          await walk(`${path.replace(/\/+$/, '')}/${name}`, [...parts, name], item.content[name], depth + 1);
+        }
+      }
+    };
+    
+    for (const path of query.paths) {
+      const parts = fs.resolve(path);
+      const item = fs.isRestricted(parts) ? null : fs.getItem(parts);
+      if (parts && item) {
+        await walk(path, parts, item, 0);
+      } else {
+        results.push(fileError(language, 'find', path, 'err_no_such_file'));
+        findStatus = 1;
+      }
+    }
+    
+    // 以 + 結束的 -exec 在搜尋完成後一起執行
+    for (const [test, paths] of batches) {
+      if (test.kind === 'exec' && !(await runExec(test.command, paths))) {
+        findStatus = 1;
+      }
+    }
+    return { results, exitCode: findStatus };
+  }
+});
+
+registerCommand({
+  name: 'mkdir',
+  usage: { zh_TW: 'mkdir [-p] [目錄]', en_US: 'mkdir [-p] [dir]' },
+  summary: { zh_TW: '建立目錄', en_US: 'Create directory' },
+  manual: {
+    description: [
+      { zh_TW: '建立目錄，需要上層目錄的寫入權限。', en_US: 'Create the directories; requires write permission on the parent directory.' }
+    ],
+    options: [
+      { flags: '-p', description: { zh_TW: '需要時一併建立上層目錄，目錄已存在時不視為錯誤', en_US: 'make parent directories as needed, no error if existing' } }
+    ]
+  },
+  mode: 'full',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    const operands = args.filter(arg => !arg.startsWith('-'));
+    const createParents = args.some(arg => arg.startsWith('-') && arg.includes('p'));
+    if (operands.length === 0) {
+      return fail([{ type: 'error', content: `mkdir: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const path of operands) {
+      const parts = fs.resolve(path);
+      if (!parts) {
+        errors.push(fileError(language, 'mkdir', path, 'err_no_such_file'));
+        continue;
+      }
+      
+      // -p 逐層建立不存在的目錄
+      const components = createParents ? parts.map((_, index) => parts.slice(0, index + 1)) : [parts];
+      for (const component of components) {
+        const existing = fs.getItem(component);
+        if (existing) {
+          if (!createParents || existing.type !== 'directory') {
+            errors.push(fileError(language, 'mkdir', path, existing.type === 'directory' ? 'err_file_exists' : 'err_not_directory'));
+            break;
+          }
+          continue;
+        }
+        
+        const parent = getParentDirectory(fs, component);
+        if (!parent) {
+          errors.push(fileError(language, 'mkdir', path, 'err_no_such_file'));
+          break;
+        }
+        if (!fs.checkPermission(parent, 'write')) {
+          errors.push(fileError(language, 'mkdir', path, 'err_perm_denied'));
+          break;
+        }
+        addItem(parent, component[component.length - 1], { type: 'directory', content: {}, permissions: 'rwxr-xr-x', ...fs.getOwnership(), lastModified: new Date() });
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'touch',
+  usage: { zh_TW: 'touch [檔案]', en_US: 'touch [file]' },
+  summary: { zh_TW: '建立檔案或更新修改時間', en_US: 'Create files or update their timestamps' },
+  mode: 'full',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    const operands = args.filter(arg => !arg.startsWith('-'));
+    if (operands.length === 0) {
+      return fail([{ type: 'error', content: `touch: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const path of operands) {
+      const parts = fs.resolve(path);
+      if (!parts) {
+        errors.push(fileError(language, 'touch', path, 'err_no_such_file'));
+        continue;
+      }
+      const existing = fs.getItem(parts);
+      
+      // 既有的項目只更新修改時間
+      if (existing) {
+        if (fs.checkPermission(existing, 'write')) {
+          existing.lastModified = new Date();
+        } else {
+          errors.push(fileError(language, 'touch', path, 'err_perm_denied'));
+        }
+        continue;
+      }
+      
+      const parent = getParentDirectory(fs, parts);
+      if (!parent) {
+        errors.push(fileError(language, 'touch', path, 'err_no_such_file'));
+      } else if (!fs.checkPermission(parent, 'write')) {
+        errors.push(fileError(language, 'touch', path, 'err_perm_denied'));
+      } else {
+        addItem(parent, parts[parts.length - 1], { type: 'file', content: [], permissions: 'rw-r--r--', ...fs.getOwnership(), lastModified: new Date() });
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'rm',
+  usage: { zh_TW: 'rm [-f] [檔案]', en_US: 'rm [-f] [file]' },
+  summary: { zh_TW: '刪除檔案', en_US: 'Remove files' },
+  manual: {
+    description: [
+      { zh_TW: '刪除檔案，需要所在目錄的寫入權限。目錄請使用 rmdir 刪除。', en_US: 'Remove the files; requires write permission on the containing directory. Use rmdir to remove directories.' }
+    ],
+    options: [
+      { flags: '-f', description: { zh_TW: '忽略不存在的檔案', en_US: 'ignore nonexistent files' } }
+    ]
+  },
+  mode: 'full',
+  handler: async ({ args, output, language, shell }) => {
+    const { fs } = shell;
+    const flags = args.filter(arg => arg.startsWith('-') && arg.length > 1);
+    const operands = args.filter(arg => !flags.includes(arg));
+    const recursive = flags.some(flag => /[rR]/.test(flag));
+    const force = flags.some(flag => flag.includes('f'));
+    
+    // 檢查是否包含危險的參數組合
+    if (recursive && force) {
+      await shell.rickRoll(output);
+      return succeed();
+    }
+    if (recursive) {
+      return fail([{ type: 'error', content: `rm: 危險操作已被系統攔截，請小心使用刪除命令！` }]);
+    }
+    if (operands.length === 0) {
+      return force ? succeed() : fail([{ type: 'error', content: `rm: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const path of operands) {
+      const parts = fs.resolve(path);
+      const item = fs.getItem(parts);
+      const parent = parts && getParentDirectory(fs, parts);
+      if (!parts || !item) {
+        if (!force) {
+          errors.push(fileError(language, 'rm', path, 'err_no_such_file'));
+        }
+      } else if (item.type === 'directory') {
+        errors.push(fileError(language, 'rm', path, 'err_is_directory'));
+      } else if (!parent || !fs.checkPermission(parent, 'write')) {
+        errors.push(fileError(language, 'rm', path, 'err_perm_denied'));
+      } else {
+        removeItem(parent, parts[parts.length - 1]);
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'rmdir',
+  usage: { zh_TW: 'rmdir [目錄]', en_US: 'rmdir [dir]' },
+  summary: { zh_TW: '刪除空目錄', en_US: 'Remove empty directories' },
+  mode: 'full',
+  completion: 'directory',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: `rmdir: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const path of args) {
+      const parts = fs.resolve(path);
+      const item = fs.getItem(parts);
+      const parent = parts && getParentDirectory(fs, parts);
+      if (!parts || !item) {
+        errors.push(fileError(language, 'rmdir', path, 'err_no_such_file'));
+      } else if (item.type !== 'directory') {
+        errors.push(fileError(language, 'rmdir', path, 'err_not_directory'));
+      } else if (Object.keys(item.content).length > 0) {
+        errors.push(fileError(language, 'rmdir', path, 'err_dir_not_empty'));
+      } else if (!parent || !fs.checkPermission(parent, 'write')) {
+        errors.push(fileError(language, 'rmdir', path, 'err_perm_denied'));
+      } else {
+        removeItem(parent, parts[parts.length - 1]);
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'mv',
+  usage: { zh_TW: 'mv [來源] [目的地]', en_US: 'mv [source] [dest]' },
+  summary: { zh_TW: '移動或重新命名檔案', en_US: 'Move or rename files' },
+  mode: 'full',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    const operands = args.filter(arg => !arg.startsWith('-'));
+    if (operands.length < 2) {
+      return fail([{ type: 'error', content: `mv: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    // 目的地是既有的目錄時移入該目錄，多個來源時目的地必須是目錄
+    const destination = operands[operands.length - 1];
+    const destinationParts = fs.resolve(destination);
+    if (!destinationParts) {
+      return fail([fileError(language, 'mv', destination, 'err_no_such_file')]);
+    }
+    const destinationItem = fs.getItem(destinationParts);
+    const sources = operands.slice(0, -1);
+    if (sources.length > 1 && destinationItem?.type !== 'directory') {
+      return fail([fileError(language, 'mv', destination, 'err_not_directory')]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const path of sources) {
+      const parts = fs.resolve(path);
+      if (!parts) {
+        errors.push(fileError(language, 'mv', path, 'err_no_such_file'));
+        continue;
+      }
+      const item = fs.getItem(parts);
+      const parent = getParentDirectory(fs, parts);
+      const targetParts = destinationItem?.type === 'directory' ? [...destinationParts, parts[parts.length - 1]] : destinationParts;
+      const targetParent = getParentDirectory(fs, targetParts);
+      const existing = fs.getItem(targetParts);
+      
+      if (!item) {
+        errors.push(fileError(language, 'mv', path, 'err_no_such_file'));
+      } else if (!parent) {
+        errors.push(fileError(language, 'mv', path, 'err_perm_denied'));
+      } else if (existing === item) {
+        errors.push(fileError(language, 'mv', path, 'err_same_file', destination));
+      } else if (isWithin(targetParts, parts)) {
+        errors.push(fileError(language, 'mv', path, 'err_into_itself', destination));
+      } else if (!targetParent) {
+        errors.push(fileError(language, 'mv', destination, 'err_no_such_file'));
+      } else if (existing?.type === 'directory') {
+        errors.push(fileError(language, 'mv', destination, 'err_is_directory'));
+      } else if (existing && item.type === 'directory') {
+        errors.push(fileError(language, 'mv', destination, 'err_not_directory'));
+      } else if (!fs.checkPermission(parent, 'write') || !fs.checkPermission(targetParent, 'write')) {
+        errors.push(fileError(language, 'mv', path, 'err_perm_denied'));
+      } else {
+        removeItem(parent, parts[parts.length - 1]);
+        addItem(targetParent, targetParts[targetParts.length - 1], item);
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'cp',
+  usage: { zh_TW: 'cp [-r] [來源] [目的地]', en_US: 'cp [-r] [source] [dest]' },
+  summary: { zh_TW: '複製檔案或目錄', en_US: 'Copy files and directories' },
+  manual: {
+    description: [
+      { zh_TW: '複製檔案到目的地，目的地是目錄時複製到該目錄中。', en_US: 'Copy the sources to the destination, or into it when it is a directory.' }
+    ],
+    options: [
+      { flags: '-r, -R', description: { zh_TW: '遞迴複製目錄', en_US: 'copy directories recursively' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const { args, language, shell: { fs } } = context;
+    const operands = args.filter(arg => !arg.startsWith('-'));
+    const recursive = args.some(arg => arg.startsWith('-') && /[rR]/.test(arg));
+    if (operands.length < 2) {
+      return fail([{ type: 'error', content: `cp: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    const destination = operands[operands.length - 1];
+    const destinationParts = fs.resolve(destination);
+    if (!destinationParts) {
+      return fail([fileError(language, 'cp', destination, 'err_no_such_file')]);
+    }
+    const destinationItem = fs.getItem(destinationParts);
+    const sources = operands.slice(0, -1);
+    if (sources.length > 1 && destinationItem?.type !== 'directory') {
+      return fail([fileError(language, 'cp', destination, 'err_not_directory')]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const path of sources) {
+      const parts = fs.resolve(path);
+      if (!parts) {
+        errors.push(fileError(language, 'cp', path, 'err_no_such_file'));
+        continue;
+      }
+      const item = fs.getItem(parts);
+      const targetParts = destinationItem?.type === 'directory' ? [...destinationParts, parts[parts.length - 1]] : destinationParts;
+      const targetParent = getParentDirectory(fs, targetParts);
+      
+      if (!item) {
+        errors.push(fileError(language, 'cp', path, 'err_no_such_file'));
+      } else if (item.type === 'directory' && !recursive) {
+        errors.push(fileError(language, 'cp', path, 'err_omit_directory'));
+      } else if (fs.getItem(targetParts) === item) {
+        errors.push(fileError(language, 'cp', path, 'err_same_file', destination));
+      } else if (item.type === 'directory' && isWithin(targetParts, parts)) {
+        errors.push(fileError(language, 'cp', path, 'err_into_itself', destination));
+      } else if (!targetParent) {
+        errors.push(fileError(language, 'cp', destination, 'err_no_such_file'));
+      } else {
+        copyItem(context, item, targetParent, targetParts[targetParts.length - 1], path, errors);
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'chmod',
+  usage: { zh_TW: 'chmod [-R] [模式] [檔案]...', en_US: 'chmod [-R] [mode] [file]...' },
+  summary: { zh_TW: '變更檔案權限', en_US: 'Change file permissions' },
+  manual: {
+    description: [
+      { zh_TW: '變更檔案的權限，只有檔案的所有者或 root 可以變更。', en_US: 'Change the permissions of each file; only the owner or root may do so.' },
+      { zh_TW: '模式可以是八進位數字（如 644），或以逗號分隔的符號模式（如 u+x,g-w）。', en_US: 'The mode is either an octal number (e.g. 644) or comma-separated symbolic clauses (e.g. u+x,g-w).' },
+      { zh_TW: '符號模式為 [ugoa]*[+-=][rwxX]*，X 只對目錄或已有執行權限的檔案加上執行權限。', en_US: 'Symbolic clauses are [ugoa]*[+-=][rwxX]*; X sets execute only on directories or files already executable by someone.' }
+    ],
+    options: [
+      { flags: '-R', description: { zh_TW: '遞迴變更目錄及其內容的權限', en_US: 'change files and directories recursively' } }
+    ]
+  },
+  mode: 'full',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    // 以 - 開頭的符號模式（如 -w）不是選項，只有 -R 視為選項
+    let index = 0;
+    while (index < args.length && /^-R+$/.test(args[index])) {
+      index++;
+    }
+    const recursive = index > 0;
+    const [mode, ...operands] = args.slice(index);
+    if (mode === undefined || operands.length === 0) {
+      return fail([{ type: 'error', content: `chmod: ${getMessage(language, 'err_missing_operand')}` }]);
+    }
+    
+    const change = parseMode(mode);
+    if (!change) {
+      return fail([{ type: 'error', content: `chmod: ${getMessage(language, 'err_invalid_mode', mode)}` }]);
+    }
+    
+    // 變更項目的權限，-R 時遞迴變更目錄的內容；錯誤會加入 errors
+    const errors: CommandResult[] = [];
+    const changeMode = (item: FileSystemItem, path: string) => {
+      if (!shell.isRoot && item.owner !== shell.user) {
+        errors.push(fileError(language, 'chmod', path, 'err_not_permitted'));
+      } else {
+        item.permissions = change(item.permissions, item.type === 'directory');
+      }
+      if (recursive && item.type === 'directory') {
+        for (const [name, child] of Object.entries(item.content)) {
+          changeMode(child, `${path.replace(/\/$/, '')}/${name}`);
+        }
+      }
+    };
+    
+    for (const path of operands) {
+      const item = fs.getItem(fs.resolve(path));
+      if (item) {
+        changeMode(item, path);
+      } else {
+        errors.push(fileError(language, 'chmod', path, 'err_no_such_file'));
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
+
+registerCommand({
+  name: 'chown',
+  usage: { zh_TW: 'chown [所有者][:群組] [檔案]', en_US: 'chown [owner][:group] [file]' },
+  summary: { zh_TW: '變更檔案所有者', en_US: 'Change file owner' },
+  mode: 'full',
+  handler: ({ args, language, shell }) => {
+    const { fs } = shell;
+    if (args.length < 2) {
+      return fail([{ type: 'error', content: 'chown: 缺少操作數' }]);
+    }
+    
+    // 所有者可以寫成 owner:group 同時更改群組
+    const [owner, group] = args[0].split(':');
+    
+    // 只有 root 可以更改所有權
+    if (!shell.isRoot) {
+      return fail([{ type: 'error', content: 'chown: 需要系統管理員權限' }]);
+    }
+    
+    const errors: CommandResult[] = [];
+    for (const chownPath of args.slice(1)) {
+      const chownTarget = fs.getItem(fs.resolve(chownPath));
+      if (!chownTarget) {
+        errors.push(fileError(language, 'chown', chownPath, 'err_no_such_file'));
+        continue;
+      }
+      if (owner) {
+        chownTarget.owner = owner;
+      }
+      if (group) {
+        chownTarget.group = group;
+      }
+    }
+    return errors.length > 0 ? fail(errors) : succeed();
+  }
+});
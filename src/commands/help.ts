@@ -0,0 +1,60 @@
+// 說明命令：help 列出目前模式下可用的命令，man 顯示命令的手冊頁
+import { fail, findCommand, formatHelpLines, isCommandAvailable, registerCommand, renderManual, succeed } from './registry';
+import { getMessage } from '../shell/messages';
+
+registerCommand({
+  name: 'help',
+  usage: 'help',
+  summary: { zh_TW: '顯示此幫助信息', en_US: 'Show this help message' },
+  mode: 'basic',
+  handler: ({ language, shell }) => {
+    // 命令分散在多個模組中，依名稱排序列出
+    const availableCommands = shell.commands
+      .filter(command => isCommandAvailable(command, shell.isFullFeatured))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const commandLines = formatHelpLines(availableCommands, language).map(line => ({ type: 'success' as const, content: line }));
+    
+    // 基本模式只列出基本命令，並提示如何啟動完整功能
+    if (!shell.isFullFeatured) {
+      return succeed([
+        { type: 'system', content: getMessage(language, 'help_basic_title') },
+        ...commandLines,
+        { type: 'info', content: getMessage(language, 'help_basic_tip') }
+      ]);
+    }
+    
+    return succeed([
+      { type: 'system', content: getMessage(language, 'help_title') },
+      ...commandLines,
+      { type: 'info', content: getMessage(language, 'help_shortcuts') },
+      { type: 'info', content: getMessage(language, 'help_ctrl_c') },
+      { type: 'info', content: getMessage(language, 'help_ctrl_l') },
+      { type: 'info', content: getMessage(language, 'help_ctrl_d') },
+      { type: 'info', content: getMessage(language, 'help_ctrl_u') },
+      { type: 'info', content: getMessage(language, 'help_kill') },
+      { type: 'info', content: getMessage(language, 'help_undo') },
+      { type: 'info', content: getMessage(language, 'help_tab') },
+      { type: 'info', content: getMessage(language, 'help_ctrl_r') },
+      { type: 'info', content: getMessage(language, 'help_arrows') },
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'man',
+  usage: { zh_TW: 'man [命令]', en_US: 'man [cmd]' },
+  summary: { zh_TW: '顯示命令說明', en_US: 'Display command manual' },
+  mode: 'full',
+  completion: 'command',
+  handler: ({ args, language, shell }) => {
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? '你必須指定一個手冊頁。' : 'What manual page do you want?' }]);
+    }
+    
+    const manualCommand = findCommand(shell.commands, args[0]);
+    if (!manualCommand) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? `沒有 ${args[0]} 的手冊頁。` : `No manual entry for ${args[0]}` }]);
+    }
+    return succeed(renderManual(manualCommand, language));
+  }
+});
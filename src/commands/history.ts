@@ -0,0 +1,46 @@
+// history 命令：列出、刪除或清除命令歷史；歷史展開與增量搜尋由終端機的輸入行處理
+import { fail, registerCommand, succeed } from './registry';
+import { getMessage } from '../shell/messages';
+
+registerCommand({
+  name: 'history',
+  usage: { zh_TW: 'history [-c] [-d 位置] [n]', en_US: 'history [-c] [-d offset] [n]' },
+  summary: { zh_TW: '顯示或清除命令歷史', en_US: 'Display or clear the command history' },
+  manual: {
+    description: [
+      { zh_TW: '列出命令歷史與編號，指定 n 時只列出最後 n 個命令。', en_US: 'List the command history with line numbers; with n, list only the last n commands.' },
+      { zh_TW: '!! 展開為上一個命令，!n 為編號 n 的命令，!-n 為倒數第 n 個命令，!prefix 為最近一個以 prefix 開頭的命令；^old^new 將上一個命令中的 old 取代為 new 後執行。', en_US: '!! expands to the previous command, !n to command number n, !-n to the n-th previous command and !prefix to the most recent command starting with prefix; ^old^new reruns the previous command with old replaced by new.' },
+      { zh_TW: 'Ctrl+R 與 Ctrl+S 以輸入的文字向較舊或較新的命令增量搜尋，Enter 執行找到的命令，Ctrl+G 取消搜尋。', en_US: 'Ctrl+R and Ctrl+S search incrementally towards older or newer commands; Enter runs the match and Ctrl+G cancels the search.' }
+    ],
+    options: [
+      { flags: '-c', description: { zh_TW: '清除所有命令歷史', en_US: 'clear the history list' } },
+      { flags: '-d OFFSET', description: { zh_TW: '刪除位置 OFFSET 的命令，負數從結尾倒數', en_US: 'delete the entry at OFFSET; negative offsets count back from the end' } }
+    ]
+  },
+  mode: 'basic',
+  handler: ({ args, language, shell }) => {
+    const { history } = shell;
+    if (args[0] === '-c') {
+      shell.setHistory([]);
+      return succeed();
+    }
+    if (args[0] === '-d') {
+      const offset = args[1] ?? '';
+      const index = Number(offset) < 0 ? history.length + Number(offset) : Number(offset) - 1;
+      if (!/^-?\d+$/.test(offset) || index < 0 || index >= history.length) {
+        return fail([{ type: 'error', content: getMessage(language, 'err_history_position', offset) }]);
+      }
+      shell.setHistory(history.filter((_, i) => i !== index));
+      return succeed();
+    }
+    if (args.length > 0 && !/^\d+$/.test(args[0])) {
+      return fail([{ type: 'error', content: getMessage(language, 'err_numeric_argument', 'history', args[0]) }]);
+    }
+    
+    const start = args.length > 0 ? Math.max(history.length - Number(args[0]), 0) : 0;
+    return succeed(history.slice(start).map((command, index) => ({
+      type: 'success' as const,
+      content: `${String(start + index + 1).padStart(5)}  ${command}`
+    })));
+  }
+});
@@ -0,0 +1,4 @@
+// 載入 src/commands 中的命令：每個檔案在載入時以 registerCommand 註冊自己的命令，不需要修改 Terminal.tsx
+import.meta.glob(['./*.{ts,tsx}', '!./index.ts', '!./registry.ts'], { eager: true });
+
+export * from './registry';
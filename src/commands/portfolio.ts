@@ -0,0 +1,109 @@
+// 個人網站的介紹命令：about、skills、projects 與 contact 引導使用者到對應的資料夾，github 顯示 GitHub 資訊
+import { registerCommand, succeed } from './registry';
+import { getMessage } from '../shell/messages';
+
+registerCommand({
+  name: 'about',
+  usage: 'about',
+  summary: { zh_TW: '顯示關於我', en_US: 'Show the About Me section' },
+  mode: 'full',
+  handler: ({ language, shell }) => {
+    if (shell.cwd !== '~/about') {
+      return succeed([
+        { type: 'info', content: getMessage(language, 'nav_switch_to_dir', 'about') },
+        { type: 'info', content: getMessage(language, 'nav_use_cd', 'about') }
+      ]);
+    }
+    
+    return succeed([
+      { type: 'info', content: '====== ' + (language === 'zh_TW' ? '關於我' : 'About Me') + ' ======' },
+      { type: 'success', content: getMessage(language, 'nav_use_ls') },
+      { type: 'success', content: getMessage(language, 'nav_example', 'cat bio.txt') }
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'skills',
+  usage: 'skills',
+  summary: { zh_TW: '顯示技能', en_US: 'Show skills' },
+  mode: 'full',
+  handler: ({ language, shell }) => {
+    if (shell.cwd !== '~/skills') {
+      return succeed([
+        { type: 'info', content: getMessage(language, 'nav_switch_to_dir', 'skills') },
+        { type: 'info', content: getMessage(language, 'nav_use_cd', 'skills') }
+      ]);
+    }
+    
+    return succeed([
+      { type: 'info', content: '====== ' + (language === 'zh_TW' ? '技能' : 'Skills') + ' ======' },
+      { type: 'success', content: getMessage(language, 'nav_use_ls') },
+      { type: 'success', content: getMessage(language, 'nav_example', 'cat frontend.txt') }
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'projects',
+  usage: 'projects',
+  summary: { zh_TW: '顯示專案列表', en_US: 'Show the project list' },
+  mode: 'full',
+  handler: ({ language, shell }) => {
+    if (shell.cwd !== '~/projects') {
+      return succeed([
+        { type: 'info', content: getMessage(language, 'nav_switch_to_dir', 'projects') },
+        { type: 'info', content: getMessage(language, 'nav_use_cd', 'projects') }
+      ]);
+    }
+    
+    return succeed([
+      { type: 'info', content: '====== ' + (language === 'zh_TW' ? '專案列表' : 'Project List') + ' ======' },
+      { type: 'success', content: getMessage(language, 'nav_use_ls') },
+      { type: 'success', content: getMessage(language, 'nav_example', 'cd terminal-portfolio') }
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'contact',
+  usage: 'contact',
+  summary: { zh_TW: '顯示聯絡方式', en_US: 'Show contact information' },
+  mode: 'full',
+  handler: ({ language, shell }) => {
+    if (shell.cwd !== '~/contact') {
+      return succeed([
+        { type: 'info', content: getMessage(language, 'nav_switch_to_dir', 'contact') },
+        { type: 'info', content: getMessage(language, 'nav_use_cd', 'contact') }
+      ]);
+    }
+    
+    return succeed([
+      { type: 'info', content: '====== ' + (language === 'zh_TW' ? '聯絡方式' : 'Contact Information') + ' ======' },
+      { type: 'success', content: getMessage(language, 'nav_use_ls') },
+      { type: 'success', content: getMessage(language, 'nav_example', 'cat info.txt') }
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'github',
+  usage: 'github',
+  summary: { zh_TW: '顯示GitHub資訊', en_US: 'Display GitHub info' },
+  mode: 'full',
+  handler: () => {
+    return succeed([
+      { type: 'info', content: '====== GitHub 資訊 ======' },
+      { type: 'success', content: '用戶名: Thetoicxdude' },
+      { type: 'success', content: '個人檔案: https://github.com/Thetoicxdude' },
+      { type: 'success', content: '儲存庫數量: 11' },
+      { type: 'success', content: '成就: Pull Shark' },
+      { type: 'success', content: '主要專案:' },
+      { type: 'success', content: '- Ai-transformer: AI 模型研究' },
+      { type: 'success', content: '- crowdfunding-platform: 眾籌平台' },
+      { type: 'success', content: '- Implicit-sentiment-analysis-model: 情感分析' },
+      { type: 'success', content: '- Zu-discord-bot: Discord 機器人' },
+      { type: 'system', content: '可以使用 "cd .github" 和 "cat profile.txt" 查看更多資訊' }
+    ]);
+  }
+});
@@ -0,0 +1,261 @@
+// 命令註冊表：每個命令宣告名稱、別名、用法、手冊頁、所需模式與處理函數
+// help、man、Tab 自動完成與基本模式的限制都由註冊表產生
+import type { ReactNode } from 'react';
+import type { FileItem, FileSystemItem } from '../shell/types';
+
+// 支援的語言
+export type Language = 'zh_TW' | 'en_US';
+
+export interface CommandResult {
+  type: 'error' | 'success' | 'info' | 'warning' | 'system';
+  content: string | ReactNode;
+  text?: string; // 純文字輸出，content 不是字串時供管道使用
+}
+
+// 命令的輸出與明確的結束狀態（0 表示成功）
+export interface CommandOutput {
+  results: CommandResult[];
+  exitCode: number;
+}
+
+// 接收命令輸出的函數，執行中的命令（如腳本）透過它逐步顯示輸出
+export type OutputSink = (results: CommandResult[]) => void;
+
+export const succeed = (results: CommandResult[] = []): CommandOutput => ({ results, exitCode: 0 });
+
+export const fail = (results: CommandResult[], exitCode = 1): CommandOutput => ({ results, exitCode });
+
+// 不隨語言改變的文字可直接使用字串
+export type LocalizedText = string | Record<Language, string>;
+
+export const localize = (text: LocalizedText, language: Language): string => {
+  return typeof text === 'string' ? text : text[language];
+};
+
+// basic 命令在基本模式下即可使用，full 命令需要先執行 deviser start
+export type CommandMode = 'basic' | 'full';
+
+export interface ManualOption {
+  flags: string; // 如 "-a, --all"
+  description: LocalizedText;
+}
+
+// 手冊頁的名稱與簡介由命令的 summary 與 usage 產生，這裡只需要描述與選項
+export interface ManualPage {
+  description: LocalizedText[];
+  options?: ManualOption[];
+}
+
+export interface DirectoryEntry {
+  name: string;
+  type: 'file' | 'directory';
+}
+
+// shell 變數，exported 的變數屬於環境變數，會由 env 列出
+export interface ShellVariable {
+  value: string;
+  exported: boolean;
+}
+
+export type EditingMode = 'emacs' | 'vi';
+
+export type Permission = 'read' | 'write' | 'execute';
+
+// 以路徑元件操作檔案系統，取得的項目可以直接修改，修改會在命令執行完畢後保存
+export interface FileSystemApi {
+  // 將路徑解析為主目錄底下的路徑元件，主目錄之外的路徑返回 null
+  resolve: (path: string) => string[] | null;
+  getItem: (parts: string[] | null) => FileSystemItem | null;
+  // 非完整功能模式下隱藏的資料夾及其內容，讀取時視為不存在
+  isRestricted: (parts: string[] | null) => boolean;
+  // 執行命令的使用者是否對項目有指定的權限，root 擁有所有權限
+  checkPermission: (item: FileSystemItem, type: Permission) => boolean;
+  // 依目前的語言返回檔案內容
+  getContent: (item: FileItem) => string[];
+  // 新建立的檔案與目錄的所有者與群組
+  getOwnership: () => { owner: string; group: string };
+}
+
+// 命令可以使用的 shell 功能
+export interface ShellApi {
+  cwd: string;
+  user: string; // 執行命令的使用者，sudo 期間為 root
+  isRoot: boolean;
+  groups: string[];
+  isFullFeatured: boolean;
+  getVariable: (name: string) => string | undefined;
+  variables: Map<string, ShellVariable>;
+  aliases: Map<string, string>;
+  history: string[];
+  setHistory: (history: string[]) => void;
+  // cd - 使用的上一個目錄
+  previousDirectory: string | null;
+  // 切換目前目錄，path 為提示符使用的格式（如 ~/about）
+  changeDirectory: (path: string) => void;
+  editingMode: EditingMode;
+  setEditingMode: (mode: EditingMode) => void;
+  // 所有已註冊的命令，供 help 與 man 使用
+  commands: CommandDefinition[];
+  // 終端機一行可顯示的字元數
+  getTerminalColumns: () => number;
+  fs: FileSystemApi;
+  // 讀取檔案內容，檔案不存在或沒有讀取權限時返回 null
+  readFile: (path: string) => string[] | null;
+  // 讀取檔案內容，失敗時返回錯誤訊息（如 "No such file or directory"），供命令以 "命令: 路徑: 訊息" 回報
+  openFile: (path: string) => { lines: string[] } | { error: string };
+  // 列出目錄中的項目，隱藏檔案也會列出；失敗時返回錯誤訊息
+  readDirectory: (path: string) => { entries: DirectoryEntry[] } | { error: string };
+  // 等待指定的毫秒數，按下 Ctrl+C 時會中斷命令
+  sleep: (delay: number) => Promise<void>;
+  // 讀取不顯示在畫面上的輸入（如密碼），以 prompt 取代提示符，使用者按下 Enter 後返回；按下 Ctrl+C 時會中斷命令
+  readSecret: (prompt: string) => Promise<string>;
+  signal: AbortSignal;
+  // 執行另一個命令（如 find -exec），argv 不再經過展開
+  execute: (argv: string[], stdin: string | null, output: OutputSink) => Promise<CommandOutput>;
+  // 執行腳本檔案：source 在目前的 shell 中執行，sh 在子 shell 中執行；name 為錯誤訊息的前綴
+  runScriptFile: (path: string, mode: 'source' | 'sh', name: string, output: OutputSink) => Promise<CommandOutput>;
+  // 在子 shell 中執行腳本內容，name 為錯誤訊息的前綴
+  runScriptSource: (source: string, name: string, output: OutputSink) => Promise<CommandOutput>;
+  // 以 root 身分執行命令列，返回其結束狀態
+  runAsRoot: (command: string, output: OutputSink) => Promise<number>;
+  checkPassword: (password: string) => boolean;
+  setPassword: (password: string) => void;
+  // rm -rf 的惡作劇：模擬刪除整個系統後播放 Rick Roll
+  rickRoll: (output: OutputSink) => Promise<void>;
+}
+
+export interface CommandContext {
+  name: string; // 執行時使用的名稱，可能是別名
+  args: string[];
+  stdin: string | null; // 管道傳入的標準輸入，沒有管道時為 null
+  // 長時間執行的命令可以透過 output 逐步送出輸出，返回的結果會接在後面
+  output: OutputSink;
+  language: Language;
+  shell: ShellApi;
+}
+
+export type CommandHandler = (context: CommandContext) => CommandOutput | Promise<CommandOutput>;
+
+// 參數的自動完成方式：path 為檔案與目錄（預設），directory 只有目錄，command 為命令名稱，陣列為固定的候選字
+export type ArgumentCompletion = 'path' | 'directory' | 'command' | string[];
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  usage: LocalizedText; // 如 "cd [dir]"
+  summary: LocalizedText; // 一行說明，用於 help 與手冊頁的名稱段落
+  manual?: ManualPage;
+  mode: CommandMode;
+  completion?: ArgumentCompletion;
+  handler: CommandHandler;
+}
+
+const registeredCommands: CommandDefinition[] = [];
+
+// 註冊命令，與終端機內建的命令同名時會取代內建命令
+export const registerCommand = (definition: CommandDefinition): void => {
+  const index = registeredCommands.findIndex(command => command.name === definition.name);
+  if (index === -1) {
+    registeredCommands.push(definition);
+  } else {
+    registeredCommands[index] = definition;
+  }
+};
+
+export const getRegisteredCommands = (): CommandDefinition[] => [...registeredCommands];
+
+// 合併內建與外部命令，外部命令取代同名的內建命令並排在最後
+export const mergeCommands = (builtins: CommandDefinition[], extensions: CommandDefinition[]): CommandDefinition[] => {
+  const names = new Set(extensions.map(command => command.name));
+  return [...builtins.filter(command => !names.has(command.name)), ...extensions];
+};
+
+// 以名稱或別名尋找命令，不區分大小寫
+export const findCommand = (commands: CommandDefinition[], name: string): CommandDefinition | undefined => {
+  const key = name.toLowerCase();
+  return commands.find(command => command.name === key || command.aliases?.includes(key));
+};
+
+export const isCommandAvailable = (command: CommandDefinition, isFullFeatured: boolean): boolean => {
+  return isFullFeatured || command.mode === 'basic';
+};
+
+// 目前模式下可用的所有命令名稱與別名，供自動完成使用
+export const getCommandNames = (commands: CommandDefinition[], isFullFeatured: boolean): string[] => {
+  return commands
+    .filter(command => isCommandAvailable(command, isFullFeatured))
+    .flatMap(command => [command.name, ...(command.aliases ?? [])]);
+};
+
+// 手冊頁列出的選項名稱，如 "-a, --all" 為 -a 與 --all，"-name PATTERN" 為 -name，供自動完成使用
+export const getOptionNames = (command: CommandDefinition): string[] => {
+  return (command.manual?.options ?? [])
+    .flatMap(option => option.flags.split(/,\s*/))
+    .map(flag => flag.trim().split(/\s+/)[0])
+    .filter(flag => flag.startsWith('-'));
+};
+
+// 中日韓文字在等寬字型中佔兩格
+export const getDisplayWidth = (text: string): number => {
+  return [...text].reduce((width, char) => width + (/[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\uff00-\uff60]/.test(char) ? 2 : 1), 0);
+};
+
+// help 列表，用法欄位對齊最長的用法，如 "cd [dir]     - Change directory"
+export const formatHelpLines = (commands: CommandDefinition[], language: Language): string[] => {
+  const usages = commands.map(command => localize(command.usage, language));
+  const width = Math.max(...usages.map(getDisplayWidth)) + 2;
+  return commands.map((command, index) => {
+    const padding = ' '.repeat(width - getDisplayWidth(usages[index]));
+    return `${usages[index]}${padding}- ${localize(command.summary, language)}`;
+  });
+};
+
+const MANUAL_HEADINGS: Record<string, Record<Language, string>> = {
+  title: { zh_TW: '用戶命令', en_US: 'User Commands' },
+  name: { zh_TW: '名稱', en_US: 'NAME' },
+  synopsis: { zh_TW: '簡介', en_US: 'SYNOPSIS' },
+  description: { zh_TW: '描述', en_US: 'DESCRIPTION' },
+  options: { zh_TW: '選項', en_US: 'OPTIONS' },
+  exit: { zh_TW: '按 q 離開', en_US: 'Press q to exit' }
+};
+
+const MANUAL_INDENT = ' '.repeat(7);
+
+// 產生命令的手冊頁，man 與 --help 共用
+export const renderManual = (command: CommandDefinition, language: Language): CommandResult[] => {
+  const heading = (key: string) => MANUAL_HEADINGS[key][language];
+  const title = `${command.name.toUpperCase()}(1)`;
+  const gap = ' '.repeat(Math.max(1, Math.floor((57 - title.length * 2 - getDisplayWidth(heading('title'))) / 2)));
+
+  const results: CommandResult[] = [
+    { type: 'info', content: `${title}${gap}${heading('title')}${gap}${title}` },
+    { type: 'system', content: heading('name') },
+    { type: 'success', content: `${MANUAL_INDENT}${command.name} - ${localize(command.summary, language)}` },
+    { type: 'system', content: heading('synopsis') },
+    { type: 'success', content: `${MANUAL_INDENT}${localize(command.usage, language)}` }
+  ];
+
+  if (command.manual) {
+    results.push({ type: 'system', content: heading('description') });
+    for (const line of command.manual.description) {
+      results.push({ type: 'success', content: `${MANUAL_INDENT}${localize(line, language)}` });
+    }
+
+    if (command.manual.options?.length) {
+      results.push({ type: 'system', content: heading('options') });
+      for (const option of command.manual.options) {
+        // 短選項與說明同一行，較長的選項說明換行縮排
+        const description = localize(option.description, language);
+        if (option.flags.length < 6) {
+          results.push({ type: 'success', content: `${MANUAL_INDENT}${option.flags.padEnd(7)}${description}` });
+        } else {
+          results.push({ type: 'success', content: `${MANUAL_INDENT}${option.flags}` });
+          results.push({ type: 'success', content: `${MANUAL_INDENT}${' '.repeat(7)}${description}` });
+        }
+      }
+    }
+  }
+
+  results.push({ type: 'info', content: heading('exit') });
+  return results;
+};
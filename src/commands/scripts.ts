@@ -0,0 +1,33 @@
+// 執行腳本的命令：sh 在子 shell 中執行，source（.）在目前的 shell 中執行
+import { fail, registerCommand } from './registry';
+
+registerCommand({
+  name: 'sh',
+  usage: { zh_TW: 'sh [腳本]', en_US: 'sh [script]' },
+  summary: { zh_TW: '執行腳本 (也可用 ./腳本)', en_US: 'Run a script (also ./script)' },
+  mode: 'full',
+  handler: ({ args, stdin, output, shell }) => {
+    // 沒有指定腳本時從標準輸入讀取
+    if (args.length === 0) {
+      if (stdin === null) {
+        return fail([{ type: 'error', content: 'sh: usage: sh script [...]' }], 2);
+      }
+      return shell.runScriptSource(stdin, 'sh', output);
+    }
+    return shell.runScriptFile(args[0], 'sh', 'sh', output);
+  }
+});
+
+registerCommand({
+  name: 'source',
+  aliases: ['.'],
+  usage: { zh_TW: 'source [檔案]', en_US: 'source [file]' },
+  summary: { zh_TW: '在目前的 shell 中執行腳本', en_US: 'Run a script in the current shell' },
+  mode: 'full',
+  handler: ({ name: command, args, output, shell }) => {
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: `${command}: filename argument required` }], 2);
+    }
+    return shell.runScriptFile(args[0], 'source', command, output);
+  }
+});
@@ -0,0 +1,106 @@
+// 一般命令：date、echo、uname、sleep，以及用於腳本條件的 test、true 與 false
+import { fail, registerCommand, succeed } from './registry';
+import { evaluateTest } from '../shell/test';
+
+registerCommand({
+  name: 'date',
+  usage: 'date',
+  summary: { zh_TW: '顯示當前日期', en_US: 'Display current date' },
+  mode: 'basic',
+  handler: () => {
+    return succeed([
+      { type: 'success', content: new Date().toLocaleString() },
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'echo',
+  usage: { zh_TW: 'echo [文字]', en_US: 'echo [text]' },
+  summary: { zh_TW: '顯示文字', en_US: 'Display text' },
+  mode: 'basic',
+  handler: ({ args }) => {
+    if (args.length === 0) {
+      return succeed([{ type: 'success', content: '' }]);
+    }
+    return succeed([{ type: 'success', content: args.join(' ') }]);
+  }
+});
+
+registerCommand({
+  name: 'uname',
+  usage: 'uname [-a]',
+  summary: { zh_TW: '顯示系統資訊', en_US: 'Display system info' },
+  mode: 'basic',
+  handler: ({ args }) => {
+    if (args.includes('-a')) {
+      return succeed([{ type: 'success', content: 'DeviOS 1.0.0 #1 SMP ' + new Date().toLocaleString() + ' x86_64 Personal Website Terminal' }]);
+    }
+    return succeed([{ type: 'success', content: 'DeviOS' }]);
+  }
+});
+
+registerCommand({
+  name: 'sleep',
+  usage: { zh_TW: 'sleep [秒數]', en_US: 'sleep [secs]' },
+  summary: { zh_TW: '暫停指定的秒數', en_US: 'Pause for the given number of seconds' },
+  mode: 'full',
+  handler: async ({ args, shell }) => {
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: 'sleep: missing operand' }]);
+    }
+    // 支援小數與 s、m、h、d 單位，多個參數的時間會相加
+    const units: Record<string, number> = { '': 1, s: 1, m: 60, h: 3600, d: 86400 };
+    let seconds = 0;
+    for (const arg of args) {
+      const match = /^(\d+(?:\.\d*)?|\.\d+)([smhd]?)$/.exec(arg);
+      if (!match) {
+        return fail([{ type: 'error', content: `sleep: invalid time interval '${arg}'` }]);
+      }
+      seconds += parseFloat(match[1]) * units[match[2]];
+    }
+    await shell.sleep(seconds * 1000);
+    return succeed();
+  }
+});
+
+registerCommand({
+  name: 'test',
+  aliases: ['['],
+  usage: { zh_TW: 'test [條件]', en_US: 'test [expr]' },
+  summary: { zh_TW: '判斷條件是否成立', en_US: 'Evaluate a conditional expression' },
+  mode: 'full',
+  handler: ({ name: command, args, shell }) => {
+    let testArgs = args;
+    if (command === '[') {
+      if (args[args.length - 1] !== ']') {
+        return fail([{ type: 'error', content: "[: missing ']'" }], 2);
+      }
+      testArgs = args.slice(0, -1);
+    }
+    const testResult = evaluateTest(command, testArgs, path => shell.fs.getItem(shell.fs.resolve(path)));
+    return testResult.error
+      ? fail([{ type: 'error', content: testResult.error }], testResult.status)
+      : { results: [], exitCode: testResult.status };
+  }
+});
+
+registerCommand({
+  name: 'true',
+  usage: 'true',
+  summary: { zh_TW: '返回成功的結束狀態', en_US: 'Return a successful exit status' },
+  mode: 'full',
+  handler: () => {
+    return succeed();
+  }
+});
+
+registerCommand({
+  name: 'false',
+  usage: 'false',
+  summary: { zh_TW: '返回失敗的結束狀態', en_US: 'Return an unsuccessful exit status' },
+  mode: 'full',
+  handler: () => {
+    return fail([]);
+  }
+});
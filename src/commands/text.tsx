@@ -0,0 +1,553 @@
+// 文字處理命令：grep、head、tail、wc、sort、uniq、cut 與 tr
+// 檔案參數為 - 或沒有檔案參數時讀取標準輸入，每個無法讀取的檔案各自回報錯誤，與 GNU 工具相同
+import type { ReactNode } from 'react';
+import { CommandContext, CommandOutput, CommandResult, fail, registerCommand, succeed } from './registry';
+import { splitLines } from '../shell/lines';
+import { getMessage } from '../shell/messages';
+
+const toResults = (lines: string[]): CommandResult[] => lines.map(line => ({ type: 'success', content: line }));
+
+interface ParsedOptions {
+  options: Map<string, string>; // 不需要值的選項其值為空字串
+  operands: string[];
+}
+
+// 分析短選項，選項可以合併（如 -in）；valued 中的選項需要一個值（如 -n 5 或 -n5），-- 之後都是操作數
+const parseOptions = (context: CommandContext, allowed: string, valued = ''): ParsedOptions | CommandOutput => {
+  const { name, args, language } = context;
+  const options = new Map<string, string>();
+  const operands: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+      continue;
+    }
+    for (let j = 1; j < arg.length; j++) {
+      const option = arg[j];
+      if (!allowed.includes(option) && !valued.includes(option)) {
+        return fail([{ type: 'error', content: `${name}: ${getMessage(language, 'err_invalid_option')} -- '${option}'` }], 2);
+      }
+      if (!valued.includes(option)) {
+        options.set(option, '');
+        continue;
+      }
+      // 值可以緊接在選項之後，或是下一個參數
+      const value = j + 1 < arg.length ? arg.substring(j + 1) : args[++i];
+      if (value === undefined) {
+        return fail([{ type: 'error', content: `${name}: ${getMessage(language, 'err_option_requires_argument', option)}` }], 2);
+      }
+      options.set(option, value);
+      break;
+    }
+  }
+  return { options, operands };
+};
+
+const isOutput = <T extends object>(value: T | CommandOutput): value is CommandOutput => 'exitCode' in value;
+
+interface TextInput {
+  name: string; // 檔案名稱，標準輸入為 -
+  lines: string[];
+}
+
+// 讀取所有輸入，沒有檔案參數時讀取標準輸入；無法讀取的檔案加入 errors
+const readInputs = (context: CommandContext, files: string[], errors: CommandResult[]): TextInput[] => {
+  const inputs: TextInput[] = [];
+  for (const file of files.length > 0 ? files : ['-']) {
+    if (file === '-') {
+      inputs.push({ name: '-', lines: splitLines(context.stdin ?? '') });
+      continue;
+    }
+    const result = context.shell.openFile(file);
+    if ('lines' in result) {
+      inputs.push({ name: file, lines: result.lines });
+    } else {
+      errors.push({ type: 'error', content: `${context.name}: ${file}: ${result.error}` });
+    }
+  }
+  return inputs;
+};
+
+// 有無法讀取的檔案時結束狀態為 1
+const finish = (results: CommandResult[], errors: CommandResult[]): CommandOutput => {
+  return { results: [...errors, ...results], exitCode: errors.length > 0 ? 1 : 0 };
+};
+
+// 將符合的部分標示出來，content 用於顯示，text 用於管道
+const highlight = (line: string, regex: RegExp): ReactNode => {
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of line.matchAll(regex)) {
+    if (match[0] === '') {
+      continue;
+    }
+    const index = match.index ?? 0;
+    parts.push(line.substring(lastIndex, index));
+    parts.push(<span key={index} style={{ color: '#dc322f', fontWeight: 'bold' }}>{match[0]}</span>);
+    lastIndex = index + match[0].length;
+  }
+  parts.push(line.substring(lastIndex));
+  return <>{parts}</>;
+};
+
+registerCommand({
+  name: 'grep',
+  usage: { zh_TW: 'grep [-cinrv] 模式 [檔案]...', en_US: 'grep [-cinrv] PATTERN [FILE]...' },
+  summary: { zh_TW: '搜尋符合的文字行', en_US: 'Search for matching lines' },
+  manual: {
+    description: [
+      { zh_TW: '在檔案或標準輸入中搜尋符合正規表達式的行，並標示符合的部分。', en_US: 'Search the files or standard input for lines matching the regular expression and highlight the matches.' },
+      { zh_TW: '有符合的行時結束狀態為 0，沒有時為 1，發生錯誤時為 2。', en_US: 'The exit status is 0 if a line matched, 1 if none did and 2 if an error occurred.' }
+    ],
+    options: [
+      { flags: '-c', description: { zh_TW: '只顯示每個檔案符合的行數', en_US: 'print only a count of matching lines per file' } },
+      { flags: '-i', description: { zh_TW: '不區分大小寫', en_US: 'ignore case distinctions' } },
+      { flags: '-n', description: { zh_TW: '在每行前顯示行號', en_US: 'prefix each line with its line number' } },
+      { flags: '-r', description: { zh_TW: '遞迴搜尋目錄中的所有檔案', en_US: 'search the files in directories recursively' } },
+      { flags: '-v', description: { zh_TW: '選取不符合的行', en_US: 'select non-matching lines' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const { language, shell } = context;
+    const parsed = parseOptions(context, 'cinrv');
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { options, operands } = parsed;
+    const [pattern, ...files] = operands;
+    if (pattern === undefined) {
+      return fail([{ type: 'error', content: getMessage(language, 'err_usage', 'grep [-cinrv] PATTERN [FILE]...') }], 2);
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, options.has('i') ? 'gi' : 'g');
+    } catch {
+      return fail([{ type: 'error', content: `grep: ${getMessage(language, 'text_invalid_pattern')}` }], 2);
+    }
+
+    const errors: CommandResult[] = [];
+    const inputs: TextInput[] = [];
+
+    // -r 時展開目錄中的所有檔案，沒有檔案參數時搜尋目前目錄
+    const collect = (path: string, display: string) => {
+      const listing = shell.readDirectory(path);
+      if (!('entries' in listing)) {
+        inputs.push(...readInputs(context, [path], errors).map(input => ({ ...input, name: display })));
+        return;
+      }
+      for (const entry of [...listing.entries].sort((a, b) => a.name.localeCompare(b.name))) {
+        const childPath = `${path.replace(/\/$/, '')}/${entry.name}`;
+        const childDisplay = display ? `${display.replace(/\/$/, '')}/${entry.name}` : entry.name;
+        if (entry.type === 'directory') {
+          collect(childPath, childDisplay);
+        } else {
+          inputs.push(...readInputs(context, [childPath], errors).map(input => ({ ...input, name: childDisplay })));
+        }
+      }
+    };
+    if (options.has('r')) {
+      if (files.length === 0) {
+        collect('.', '');
+      }
+      files.forEach(file => (file === '-' ? inputs.push(...readInputs(context, ['-'], errors)) : collect(file, file)));
+    } else {
+      inputs.push(...readInputs(context, files, errors));
+    }
+
+    // 搜尋多個檔案時在每行前加上檔案名稱
+    const showNames = inputs.length > 1 || (options.has('r') && files.length !== 1) || files.length > 1;
+    const results: CommandResult[] = [];
+    let matched = false;
+    for (const { name, lines } of inputs) {
+      const prefix = showNames ? `${name === '-' ? '(standard input)' : name}:` : '';
+      let count = 0;
+      lines.forEach((line, index) => {
+        regex.lastIndex = 0;
+        if (regex.test(line) === options.has('v')) {
+          return;
+        }
+        count++;
+        if (options.has('c')) {
+          return;
+        }
+        const linePrefix = `${prefix}${options.has('n') ? `${index + 1}:` : ''}`;
+        results.push({
+          type: 'success',
+          content: options.has('v') ? `${linePrefix}${line}` : <>{linePrefix}{highlight(line, regex)}</>,
+          text: `${linePrefix}${line}`
+        });
+      });
+      if (options.has('c')) {
+        results.push({ type: 'success', content: `${prefix}${count}` });
+      }
+      matched = matched || count > 0;
+    }
+
+    // 有錯誤時返回 2，沒有符合的行時返回 1
+    if (errors.length > 0) {
+      return fail([...errors, ...results], 2);
+    }
+    return { results, exitCode: matched ? 0 : 1 };
+  }
+});
+
+// head 與 tail 的行數，支援 -n 5、-n5 與 -5；tail -n +3 表示從第 3 行開始
+const parseLineCount = (context: CommandContext): { count: string; files: string[] } | CommandOutput => {
+  // -5 的舊式寫法只能作為第一個參數，-n -5 的 -5 是行數
+  const args = context.args.map((arg, index) => (index === 0 && /^-\d+$/.test(arg) ? `-n${arg.substring(1)}` : arg));
+  const parsed = parseOptions({ ...context, args }, '', 'n');
+  if (isOutput(parsed)) {
+    return parsed;
+  }
+  const count = parsed.options.get('n') ?? '10';
+  if (!/^[+-]?\d+$/.test(count)) {
+    return fail([{ type: 'error', content: `${context.name}: ${getMessage(context.language, 'text_invalid_line_count', count)}` }]);
+  }
+  return { count, files: parsed.operands };
+};
+
+// 指定多個檔案時在每個檔案的內容前顯示 ==> 名稱 <==，即使其中有無法讀取的檔案
+const formatSections = (inputs: TextInput[], files: string[], select: (lines: string[]) => string[]): CommandResult[] => {
+  return inputs.flatMap((input, index) => {
+    if (files.length <= 1) {
+      return toResults(select(input.lines));
+    }
+    const header = `==> ${input.name === '-' ? 'standard input' : input.name} <==`;
+    return [...(index > 0 ? toResults(['']) : []), ...toResults([header]), ...toResults(select(input.lines))];
+  });
+};
+
+registerCommand({
+  name: 'head',
+  usage: { zh_TW: 'head [-n 行數] [檔案]...', en_US: 'head [-n lines] [file]...' },
+  summary: { zh_TW: '顯示檔案的開頭', en_US: 'Output the first part of files' },
+  manual: {
+    description: [
+      { zh_TW: '顯示每個檔案的前 10 行，多個檔案時在每個檔案前顯示名稱。', en_US: 'Print the first 10 lines of each file, with a header before each file when there are several.' }
+    ],
+    options: [
+      { flags: '-n', description: { zh_TW: '顯示前 n 行；n 為負數時顯示最後 n 行以外的所有行', en_US: 'print the first n lines; with a negative n, all but the last n lines' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseLineCount(context);
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const count = Number(parsed.count);
+    const errors: CommandResult[] = [];
+    const inputs = readInputs(context, parsed.files, errors);
+    return finish(formatSections(inputs, parsed.files, lines => lines.slice(0, count)), errors);
+  }
+});
+
+registerCommand({
+  name: 'tail',
+  usage: { zh_TW: 'tail [-n 行數] [檔案]...', en_US: 'tail [-n lines] [file]...' },
+  summary: { zh_TW: '顯示檔案的結尾', en_US: 'Output the last part of files' },
+  manual: {
+    description: [
+      { zh_TW: '顯示每個檔案的最後 10 行，多個檔案時在每個檔案前顯示名稱。', en_US: 'Print the last 10 lines of each file, with a header before each file when there are several.' }
+    ],
+    options: [
+      { flags: '-n', description: { zh_TW: '顯示最後 n 行；+n 表示從第 n 行開始顯示', en_US: 'print the last n lines; +n prints starting with line n' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseLineCount(context);
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { count } = parsed;
+    const errors: CommandResult[] = [];
+    const inputs = readInputs(context, parsed.files, errors);
+    const select = (lines: string[]) => {
+      if (count.startsWith('+')) {
+        return lines.slice(Math.max(Number(count) - 1, 0));
+      }
+      const last = Math.abs(Number(count));
+      return last === 0 ? [] : lines.slice(-last);
+    };
+    return finish(formatSections(inputs, parsed.files, select), errors);
+  }
+});
+
+registerCommand({
+  name: 'wc',
+  usage: { zh_TW: 'wc [-clw] [檔案]...', en_US: 'wc [-clw] [file]...' },
+  summary: { zh_TW: '計算行數、字數與位元組數', en_US: 'Count lines, words and bytes' },
+  manual: {
+    description: [
+      { zh_TW: '顯示每個檔案的行數、字數與位元組數，多個檔案時另外顯示總計。', en_US: 'Print line, word and byte counts for each file, and a total line when there are several.' }
+    ],
+    options: [
+      { flags: '-c', description: { zh_TW: '顯示位元組數', en_US: 'print the byte counts' } },
+      { flags: '-l', description: { zh_TW: '顯示行數', en_US: 'print the newline counts' } },
+      { flags: '-w', description: { zh_TW: '顯示字數', en_US: 'print the word counts' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseOptions(context, 'clw');
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { options, operands } = parsed;
+    // 沒有指定選項時顯示全部三項，順序固定為行數、字數、位元組數
+    const selected = ['l', 'w', 'c'].filter(option => options.size === 0 || options.has(option));
+
+    const errors: CommandResult[] = [];
+    const inputs = readInputs(context, operands, errors);
+    const rows = inputs.map(({ name, lines }) => {
+      const text = lines.map(line => `${line}\n`).join('');
+      const counts: Record<string, number> = {
+        l: lines.length,
+        w: text.split(/\s+/).filter(word => word).length,
+        c: new TextEncoder().encode(text).length
+      };
+      return { name: name === '-' ? '' : name, counts: selected.map(option => counts[option]) };
+    });
+    if (rows.length > 1) {
+      rows.push({ name: 'total', counts: selected.map((_, index) => rows.reduce((sum, row) => sum + row.counts[index], 0)) });
+    }
+
+    const width = selected.length > 1 || rows.length > 1 ? Math.max(7, ...rows.flatMap(row => row.counts.map(count => String(count).length))) : 0;
+    const lines = rows.map(row => [...row.counts.map(count => String(count).padStart(width)), row.name].join(' ').trimEnd());
+    return finish(toResults(lines), errors);
+  }
+});
+
+// sort -n 比較行首的數字，沒有數字的行視為 0
+const leadingNumber = (line: string): number => {
+  const match = /^\s*[+-]?(\d+\.?\d*|\.\d+)/.exec(line);
+  return match ? Number(match[0]) : 0;
+};
+
+registerCommand({
+  name: 'sort',
+  usage: { zh_TW: 'sort [-nru] [檔案]...', en_US: 'sort [-nru] [file]...' },
+  summary: { zh_TW: '排序文字行', en_US: 'Sort lines of text' },
+  manual: {
+    description: [
+      { zh_TW: '將所有檔案的行合併後排序輸出。', en_US: 'Write the sorted concatenation of all files.' }
+    ],
+    options: [
+      { flags: '-n', description: { zh_TW: '依行首的數值排序', en_US: 'compare according to the leading numeric value' } },
+      { flags: '-r', description: { zh_TW: '反轉排序結果', en_US: 'reverse the result of comparisons' } },
+      { flags: '-u', description: { zh_TW: '相同的行只輸出一次', en_US: 'output only the first of equal lines' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseOptions(context, 'nru');
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { options, operands } = parsed;
+    const errors: CommandResult[] = [];
+    const lines = readInputs(context, operands, errors).flatMap(input => input.lines);
+
+    const compare = (a: string, b: string): number => {
+      const difference = options.has('n') ? leadingNumber(a) - leadingNumber(b) : a.localeCompare(b);
+      return options.has('r') ? -difference : difference;
+    };
+    const sorted = [...lines].sort(compare);
+    const unique = options.has('u') ? sorted.filter((line, index) => index === 0 || compare(sorted[index - 1], line) !== 0) : sorted;
+    return finish(toResults(unique), errors);
+  }
+});
+
+registerCommand({
+  name: 'uniq',
+  usage: { zh_TW: 'uniq [-c] [檔案]', en_US: 'uniq [-c] [file]' },
+  summary: { zh_TW: '合併相鄰的重複行', en_US: 'Omit repeated adjacent lines' },
+  manual: {
+    description: [
+      { zh_TW: '相鄰且相同的行只輸出一次，通常先以 sort 排序。', en_US: 'Collapse adjacent identical lines into one; usually used after sort.' }
+    ],
+    options: [
+      { flags: '-c', description: { zh_TW: '在每行前顯示重複的次數', en_US: 'prefix lines by the number of occurrences' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseOptions(context, 'c');
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { options, operands } = parsed;
+    if (operands.length > 1) {
+      return fail([{ type: 'error', content: `uniq: ${getMessage(context.language, 'err_extra_operand', operands[1])}` }]);
+    }
+    const errors: CommandResult[] = [];
+    const lines = readInputs(context, operands, errors).flatMap(input => input.lines);
+
+    const groups: { line: string; count: number }[] = [];
+    for (const line of lines) {
+      const last = groups[groups.length - 1];
+      if (last && last.line === line) {
+        last.count++;
+      } else {
+        groups.push({ line, count: 1 });
+      }
+    }
+    return finish(toResults(groups.map(({ line, count }) => (options.has('c') ? `${String(count).padStart(7)} ${line}` : line))), errors);
+  }
+});
+
+// 欄位清單，如 1,3 或 2-4、-2、3-；返回判斷第 n 個欄位（從 1 開始）是否選取的函數
+const parseFieldList = (list: string): ((position: number) => boolean) | null => {
+  const ranges: [number, number][] = [];
+  for (const part of list.split(',')) {
+    const match = /^(\d*)(-?)(\d*)$/.exec(part);
+    if (!match || (!match[1] && !match[3])) {
+      return null;
+    }
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : Infinity) : start;
+    if (start < 1 || end < start) {
+      return null;
+    }
+    ranges.push([start, end]);
+  }
+  return position => ranges.some(([start, end]) => position >= start && position <= end);
+};
+
+registerCommand({
+  name: 'cut',
+  usage: { zh_TW: 'cut -f 清單 [-d 分隔符號] [檔案]...', en_US: 'cut -f LIST [-d DELIM] [file]...' },
+  summary: { zh_TW: '選取每行中的欄位', en_US: 'Remove sections from each line' },
+  manual: {
+    description: [
+      { zh_TW: '輸出每行中選取的欄位或字元。清單以逗號分隔，可以使用範圍，如 1,3 或 2-4。', en_US: 'Print the selected fields or characters of each line. LIST is comma-separated and may contain ranges, e.g. 1,3 or 2-4.' },
+      { zh_TW: '沒有分隔符號的行會完整輸出。', en_US: 'Lines without the delimiter are printed unchanged.' }
+    ],
+    options: [
+      { flags: '-c', description: { zh_TW: '選取字元', en_US: 'select only these characters' } },
+      { flags: '-d', description: { zh_TW: '使用指定的欄位分隔符號，預設為 Tab', en_US: 'use DELIM instead of TAB for the field delimiter' } },
+      { flags: '-f', description: { zh_TW: '選取欄位', en_US: 'select only these fields' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseOptions(context, '', 'cdf');
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { options, operands } = parsed;
+    const list = options.get('f') ?? options.get('c');
+    if (list === undefined) {
+      return fail([{ type: 'error', content: `cut: ${getMessage(context.language, 'text_missing_field_list')}` }]);
+    }
+    const isSelected = parseFieldList(list);
+    if (!isSelected) {
+      return fail([{ type: 'error', content: `cut: ${getMessage(context.language, 'text_invalid_field_range', list)}` }]);
+    }
+
+    const delimiter = options.get('d') ?? '\t';
+    const cutLine = (line: string): string => {
+      if (!options.has('f')) {
+        return [...line].filter((_, index) => isSelected(index + 1)).join('');
+      }
+      if (!line.includes(delimiter)) {
+        return line;
+      }
+      return line.split(delimiter).filter((_, index) => isSelected(index + 1)).join(delimiter);
+    };
+
+    const errors: CommandResult[] = [];
+    const lines = readInputs(context, operands, errors).flatMap(input => input.lines);
+    return finish(toResults(lines.map(cutLine)), errors);
+  }
+});
+
+const CHARACTER_CLASSES: Record<string, string> = {
+  lower: 'abcdefghijklmnopqrstuvwxyz',
+  upper: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digit: '0123456789',
+  space: ' \t\n\r\f\v'
+};
+CHARACTER_CLASSES.alpha = CHARACTER_CLASSES.lower + CHARACTER_CLASSES.upper;
+CHARACTER_CLASSES.alnum = CHARACTER_CLASSES.alpha + CHARACTER_CLASSES.digit;
+
+// 展開 tr 的字元集合：範圍（a-z）、字元類別（[:upper:]）與跳脫字元（\n、\t、\\）
+const expandSet = (set: string): string[] => {
+  const source = set.replace(/\[:(\w+):\]/g, (match, name: string) => CHARACTER_CLASSES[name] ?? match);
+  const chars: string[] = [];
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\' };
+  const tokens = [...source.matchAll(/\\(.)|./gs)].map(match => (match[1] !== undefined ? escapes[match[1]] ?? match[1] : match[0]));
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i + 1] === '-' && i + 2 < tokens.length && tokens[i + 2] >= tokens[i]) {
+      for (let code = tokens[i].charCodeAt(0); code <= tokens[i + 2].charCodeAt(0); code++) {
+        chars.push(String.fromCharCode(code));
+      }
+      i += 2;
+    } else {
+      chars.push(tokens[i]);
+    }
+  }
+  return chars;
+};
+
+registerCommand({
+  name: 'tr',
+  usage: { zh_TW: 'tr [-ds] 集合1 [集合2]', en_US: 'tr [-ds] SET1 [SET2]' },
+  summary: { zh_TW: '轉換或刪除字元', en_US: 'Translate or delete characters' },
+  manual: {
+    description: [
+      { zh_TW: '將標準輸入中屬於集合1 的字元轉換為集合2 中對應的字元。', en_US: 'Translate characters of standard input in SET1 to the corresponding characters of SET2.' },
+      { zh_TW: '集合可以使用範圍（a-z）與字元類別（[:lower:]、[:upper:]、[:digit:]、[:space:]、[:alpha:]、[:alnum:]）。', en_US: 'Sets may use ranges (a-z) and classes ([:lower:], [:upper:], [:digit:], [:space:], [:alpha:], [:alnum:]).' }
+    ],
+    options: [
+      { flags: '-d', description: { zh_TW: '刪除集合1 中的字元', en_US: 'delete characters in SET1' } },
+      { flags: '-s', description: { zh_TW: '將連續重複的字元合併為一個', en_US: 'squeeze repeated characters into one' } }
+    ]
+  },
+  mode: 'full',
+  handler: context => {
+    const parsed = parseOptions(context, 'ds');
+    if (isOutput(parsed)) {
+      return parsed;
+    }
+    const { options, operands } = parsed;
+    const expected = options.has('d') && !options.has('s') ? 1 : options.has('d') ? 2 : options.has('s') ? 1 : 2;
+    if (operands.length < expected) {
+      return fail([{ type: 'error', content: `tr: ${getMessage(context.language, 'err_missing_operand')}` }]);
+    }
+    if (operands.length > 2 || (options.has('d') && !options.has('s') && operands.length > 1)) {
+      return fail([{ type: 'error', content: `tr: ${getMessage(context.language, 'err_extra_operand', operands[operands.length - 1])}` }]);
+    }
+
+    const from = expandSet(operands[0]);
+    const to = operands[1] !== undefined ? expandSet(operands[1]) : [];
+    const translate = (char: string): string => {
+      const index = from.lastIndexOf(char);
+      // 集合2 較短時以最後一個字元補齊
+      return index === -1 || options.has('d') || to.length === 0 ? char : to[Math.min(index, to.length - 1)];
+    };
+    // -s 合併的是轉換後的集合（只有一個集合時為集合1）
+    const squeezeSet = new Set(operands.length > 1 ? to : from);
+
+    let output = '';
+    for (const char of context.stdin ?? '') {
+      if (options.has('d') && from.includes(char)) {
+        continue;
+      }
+      const translated = translate(char);
+      if (options.has('s') && squeezeSet.has(translated) && output.endsWith(translated)) {
+        continue;
+      }
+      output += translated;
+    }
+    return succeed(toResults(splitLines(output)));
+  }
+});
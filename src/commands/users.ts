@@ -0,0 +1,83 @@
+// 使用者命令：whoami、id，以及以密碼驗證身分的 sudo 與 passwd
+import { fail, registerCommand, succeed } from './registry';
+import { quoteWord } from '../shell/lexer';
+
+registerCommand({
+  name: 'whoami',
+  usage: 'whoami',
+  summary: { zh_TW: '顯示當前使用者', en_US: 'Display current user' },
+  mode: 'basic',
+  handler: ({ shell }) => {
+    return succeed([
+      { type: 'success', content: shell.user },
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'id',
+  usage: 'id',
+  summary: { zh_TW: '顯示使用者與群組資訊', en_US: 'Display user and group information' },
+  mode: 'full',
+  handler: ({ shell }) => {
+    return succeed([
+      { type: 'success', content: `uid=${shell.isRoot ? 0 : 1000}(${shell.user}) gid=1000(${shell.groups[0]}) 群組=${shell.groups.join(',')}` },
+    ]);
+  }
+});
+
+registerCommand({
+  name: 'sudo',
+  usage: { zh_TW: 'sudo [命令]', en_US: 'sudo [cmd]' },
+  summary: { zh_TW: '以系統管理員身分執行命令', en_US: 'Run a command as root' },
+  mode: 'full',
+  handler: async ({ args, output, language, shell }) => {
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: 'sudo: 缺少要執行的命令' }]);
+    }
+    
+    // 與 sudo 相同最多嘗試三次，密碼正確時以 root 身分執行命令並返回其結束狀態
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const password = await shell.readSecret(language === 'zh_TW' ? `[sudo] ${shell.user} 的密碼:` : `[sudo] password for ${shell.user}:`);
+      if (shell.checkPassword(password)) {
+        return { results: [], exitCode: await shell.runAsRoot(args.map(quoteWord).join(' '), output) };
+      }
+      if (attempt < 3) {
+        output([{ type: 'error', content: language === 'zh_TW' ? '抱歉，請重試。' : 'Sorry, try again.' }]);
+      }
+    }
+    return fail([{ type: 'error', content: language === 'zh_TW' ? 'sudo: 3 次錯誤的密碼嘗試' : 'sudo: 3 incorrect password attempts' }]);
+  }
+});
+
+registerCommand({
+  name: 'passwd',
+  usage: 'passwd',
+  summary: { zh_TW: '變更密碼', en_US: 'Change password' },
+  manual: {
+    description: [
+      { zh_TW: '變更 sudo 使用的密碼：輸入目前的密碼後輸入兩次新密碼，輸入的內容不會顯示在畫面上。以 root 身分執行時不需要目前的密碼。', en_US: 'Change the password used by sudo: enter the current password, then the new password twice. Nothing you type is shown. Running as root skips the current password.' }
+    ]
+  },
+  mode: 'full',
+  handler: async ({ output, language, shell }) => {
+    output([{ type: 'info', content: language === 'zh_TW' ? `正在變更 ${shell.user} 的密碼。` : `Changing password for ${shell.user}.` }]);
+    if (!shell.isRoot) {
+      const current = await shell.readSecret(language === 'zh_TW' ? '目前的密碼:' : 'Current password:');
+      if (!shell.checkPassword(current)) {
+        return fail([{ type: 'error', content: language === 'zh_TW' ? 'passwd: 認證失敗' : 'passwd: Authentication failure' }]);
+      }
+    }
+    
+    const password = await shell.readSecret(language === 'zh_TW' ? '新密碼:' : 'New password:');
+    if (!password) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? '未提供密碼。' : 'No password has been supplied.' }]);
+    }
+    const retyped = await shell.readSecret(language === 'zh_TW' ? '再次輸入新密碼:' : 'Retype new password:');
+    if (retyped !== password) {
+      return fail([{ type: 'error', content: language === 'zh_TW' ? '抱歉，密碼不相符。' : 'Sorry, passwords do not match.' }]);
+    }
+    shell.setPassword(password);
+    return succeed([{ type: 'success', content: language === 'zh_TW' ? 'passwd: 密碼已成功更新' : 'passwd: password updated successfully' }]);
+  }
+});
@@ -0,0 +1,191 @@
+// shell 變數與別名命令：export、unset、env、set、alias 與 unalias
+import { CommandResult, fail, registerCommand, ShellVariable, succeed } from './registry';
+import { formatAlias, isValidAliasName } from '../shell/alias';
+import { isValidName } from '../shell/expand';
+import { quoteWord } from '../shell/lexer';
+import { getMessage } from '../shell/messages';
+
+// 依名稱排序列出變數，exportedOnly 時只列出環境變數
+const listVariables = (variables: Map<string, ShellVariable>, exportedOnly: boolean): [string, ShellVariable][] => {
+  return [...variables]
+    .filter(([, variable]) => !exportedOnly || variable.exported)
+    .sort(([a], [b]) => a.localeCompare(b));
+};
+
+registerCommand({
+  name: 'export',
+  usage: { zh_TW: 'export [名稱=值]', en_US: 'export [NAME=value]' },
+  summary: { zh_TW: '設定環境變數', en_US: 'Set environment variables' },
+  mode: 'basic',
+  handler: ({ args, language, shell }) => {
+    // 不帶參數時列出所有環境變數
+    if (args.length === 0 || args[0] === '-p') {
+      return succeed(listVariables(shell.variables, true).map(([name, variable]) => ({
+        type: 'success' as const,
+        content: `declare -x ${name}="${variable.value}"`
+      })));
+    }
+    
+    const exportResult: CommandResult[] = [];
+    let exportStatus = 0;
+    for (const arg of args) {
+      const separator = arg.indexOf('=');
+      const name = separator === -1 ? arg : arg.substring(0, separator);
+      if (!isValidName(name)) {
+        exportResult.push({ type: 'error', content: getMessage(language, 'err_invalid_identifier', 'export', arg) });
+        exportStatus = 1;
+        continue;
+      }
+      
+      const variable = shell.variables.get(name);
+      if (separator !== -1) {
+        shell.variables.set(name, { value: arg.substring(separator + 1), exported: true });
+      } else if (variable) {
+        variable.exported = true;
+      }
+    }
+    return { results: exportResult, exitCode: exportStatus };
+  }
+});
+
+registerCommand({
+  name: 'unset',
+  usage: { zh_TW: 'unset [名稱]', en_US: 'unset [NAME]' },
+  summary: { zh_TW: '刪除 shell 變數', en_US: 'Unset shell variables' },
+  mode: 'basic',
+  handler: ({ args, language, shell }) => {
+    const unsetResult: CommandResult[] = [];
+    let unsetStatus = 0;
+    for (const name of args) {
+      if (!isValidName(name)) {
+        unsetResult.push({ type: 'error', content: getMessage(language, 'err_invalid_identifier', 'unset', name) });
+        unsetStatus = 1;
+        continue;
+      }
+      shell.variables.delete(name);
+    }
+    return { results: unsetResult, exitCode: unsetStatus };
+  }
+});
+
+registerCommand({
+  name: 'env',
+  usage: 'env',
+  summary: { zh_TW: '列出環境變數', en_US: 'List environment variables' },
+  mode: 'basic',
+  handler: ({ shell }) => {
+    return succeed(listVariables(shell.variables, true).map(([name, variable]) => ({
+      type: 'success' as const,
+      content: `${name}=${variable.value}`
+    })));
+  }
+});
+
+registerCommand({
+  name: 'set',
+  usage: { zh_TW: 'set [-o 選項]', en_US: 'set [-o option]' },
+  summary: { zh_TW: '列出 shell 變數或設定選項', en_US: 'List shell variables or set options' },
+  manual: {
+    description: [
+      { zh_TW: '沒有參數時列出所有 shell 變數。', en_US: 'Without arguments, list all shell variables.' },
+      { zh_TW: 'set -o vi 使用 vi 風格編輯命令列：按 Esc 進入命令模式，可使用 h、l、w、b、e、0、$ 移動，x、dw、cw、D 刪除或修改，p 貼上，u 復原，i、a、I、A 回到插入模式，k、j 瀏覽歷史。set -o emacs 回到預設的 emacs 風格。', en_US: 'set -o vi edits the command line vi-style: Esc enters command mode, where h, l, w, b, e, 0 and $ move, x, dw, cw and D delete or change, p pastes, u undoes, i, a, I and A return to insert mode and k and j browse the history. set -o emacs returns to the default emacs style.' }
+    ],
+    options: [
+      { flags: '-o OPTION', description: { zh_TW: '開啟選項（vi 或 emacs），沒有指定選項時列出目前的設定', en_US: 'enable OPTION (vi or emacs); without OPTION, list the current settings' } },
+      { flags: '+o OPTION', description: { zh_TW: '關閉選項，關閉 vi 時回到 emacs 模式', en_US: 'disable OPTION; disabling vi returns to emacs mode' } }
+    ]
+  },
+  mode: 'basic',
+  completion: ['emacs', 'vi'],
+  handler: ({ args, language, shell }) => {
+    if (args[0] === '-o' || args[0] === '+o') {
+      const [flag, option] = args;
+      if (option === undefined) {
+        // -o 列出選項的狀態，+o 以可重新執行的命令列出
+        return succeed((['emacs', 'vi'] as const).map(name => ({
+          type: 'success' as const,
+          content: flag === '-o' ? `${name.padEnd(15)} ${name === shell.editingMode ? 'on' : 'off'}` : `set ${name === shell.editingMode ? '-o' : '+o'} ${name}`
+        })));
+      }
+      if (option !== 'emacs' && option !== 'vi') {
+        return fail([{ type: 'error', content: getMessage(language, 'err_invalid_option_name', option) }]);
+      }
+      // +o 只有關閉 vi 時會改變模式，其餘情況仍會回到插入模式
+      shell.setEditingMode(flag === '-o' ? option : option === 'vi' ? 'emacs' : shell.editingMode);
+      return succeed();
+    }
+    if (args.length > 0) {
+      return fail([{ type: 'error', content: `set: ${args[0]}: ${getMessage(language, 'err_invalid_option')}` }]);
+    }
+    // 列出所有 shell 變數，值會加上必要的引號
+    return succeed(listVariables(shell.variables, false).map(([name, variable]) => ({
+      type: 'success' as const,
+      content: `${name}=${quoteWord(variable.value)}`
+    })));
+  }
+});
+
+registerCommand({
+  name: 'alias',
+  usage: { zh_TW: 'alias [名稱=值]', en_US: 'alias [name=value]' },
+  summary: { zh_TW: '定義或列出命令別名', en_US: 'Define or list command aliases' },
+  mode: 'basic',
+  handler: ({ args, language, shell }) => {
+    // 不帶參數時列出所有別名
+    if (args.length === 0 || args[0] === '-p') {
+      return succeed([...shell.aliases]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => ({ type: 'success' as const, content: formatAlias(name, value) })));
+    }
+    
+    const aliasResult: CommandResult[] = [];
+    let aliasStatus = 0;
+    for (const arg of args) {
+      const separator = arg.indexOf('=');
+      if (separator === -1) {
+        // 只有名稱時顯示該別名的定義
+        const value = shell.aliases.get(arg);
+        if (value === undefined) {
+          aliasResult.push({ type: 'error', content: getMessage(language, 'err_alias_not_found', 'alias', arg) });
+          aliasStatus = 1;
+        } else {
+          aliasResult.push({ type: 'success', content: formatAlias(arg, value) });
+        }
+        continue;
+      }
+      
+      const name = arg.substring(0, separator);
+      if (!isValidAliasName(name)) {
+        aliasResult.push({ type: 'error', content: getMessage(language, 'err_invalid_alias', name) });
+        aliasStatus = 1;
+        continue;
+      }
+      shell.aliases.set(name, arg.substring(separator + 1));
+    }
+    return { results: aliasResult, exitCode: aliasStatus };
+  }
+});
+
+registerCommand({
+  name: 'unalias',
+  usage: { zh_TW: 'unalias [-a] [名稱]', en_US: 'unalias [-a] [name]' },
+  summary: { zh_TW: '移除命令別名', en_US: 'Remove command aliases' },
+  mode: 'basic',
+  handler: ({ args, language, shell }) => {
+    if (args.length === 0) {
+      return fail([{ type: 'error', content: 'unalias: usage: unalias [-a] name [name ...]' }], 2);
+    }
+    if (args[0] === '-a') {
+      shell.aliases.clear();
+      return succeed();
+    }
+    
+    const unaliasResult: CommandResult[] = [];
+    for (const name of args) {
+      if (!shell.aliases.delete(name)) {
+        unaliasResult.push({ type: 'error', content: getMessage(language, 'err_alias_not_found', 'unalias', name) });
+      }
+    }
+    return unaliasResult.length > 0 ? fail(unaliasResult) : succeed();
+  }
+});
@@ -0,0 +1,16 @@
+// 檔案列表的輸出樣式，ls 與 Tab 自動完成的候選清單共用
+import styled from 'styled-components';
+
+export const FileText = styled.span`
+  color: ${props => props.theme.fileColor};
+`;
+
+export const DirectoryText = styled.span`
+  color: ${props => props.theme.directoryColor};
+`;
+
+// 列表的一行輸出，保留用於對齊欄位的空白
+export const ListingRow = styled.span`
+  display: block;
+  white-space: pre;
+`;
@@ -1,28 +1,52 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import styled from 'styled-components';
 import '@xterm/xterm/css/xterm.css';
+import contentHome from 'virtual:file-system';
+import { ListingRow } from './Listing';
+import { ShellSyntaxError, Token, tokenize, WordToken } from '../shell/lexer';
+import { expandAliases } from '../shell/alias';
+import { CommandList, parseCommandList, Pipeline } from '../shell/parser';
+import { parseScript, ScriptNode } from '../shell/script';
+import { createJob, Job, JobCancelledError } from '../shell/job';
+import { CommandSubstitution, expandWord, expandWordFields, parseAssignment } from '../shell/expand';
+import { expandGlob } from '../shell/glob';
+import { formatPath, resolvePath, toAbsolutePath } from '../shell/path';
+import { splitLines } from '../shell/lines';
+import { expandHistory, HistoryExpansionError, searchHistory, SearchDirection } from '../shell/history';
+import { applyCompletion, CompletionTarget, getCompletionTarget } from '../shell/completion';
+import { addToKillRing, deleteRange, findNextViWord, findPreviousViWord, findUnixWordStart, findViWordEnd, findWordEnd, findWordStart, insertText, LineState, transposeChars } from '../shell/readline';
+import { layoutColumns } from '../shell/listing';
+import { addItem, findItem } from '../shell/filesystem';
+import { getMessage } from '../shell/messages';
+import { applyOverlay, cloneFileSystem, deserializeItem, diffFileSystem, loadSession, saveSession } from '../shell/storage';
+import { FileItem, FileSystem, FileSystemItem } from '../shell/types';
+import { CommandDefinition, CommandOutput, DirectoryEntry, CommandResult, EditingMode, fail, findCommand, getCommandNames, getDisplayWidth, getOptionNames, getRegisteredCommands, isCommandAvailable, Language, mergeCommands, OutputSink, renderManual, ShellVariable, succeed } from '../commands';
 
 interface TerminalProps {
   toggleTheme: () => void;
 }
 
-// 定義支持的語言
-type Language = 'zh_TW' | 'en_US';
-
-// 定義多語言文本資源
-interface TextResources {
-  [key: string]: {
-    [key: string]: string;
-  };
+// 輸出歷史中的一個項目：輸入的命令與其輸出
+interface OutputEntry {
+  command: string;
+  result: CommandResult[];
 }
 
-interface CommandResult {
-  type: 'error' | 'success' | 'info' | 'warning' | 'system';
-  content: string | React.ReactNode;
+// 修改輸入行的動作，insert 為一般輸入，kill 與 yank 用於 kill ring
+type LineEditAction = 'insert' | 'edit' | 'kill' | 'yank';
+
+// Ctrl+R / Ctrl+S 增量搜尋的狀態，origin 為開始搜尋時的歷史位置，original 為開始搜尋前的輸入
+interface HistorySearch {
+  query: string;
+  direction: SearchDirection;
+  origin: number;
+  original: string;
+  failed: boolean;
 }
 
 interface CursorProps {
   position: number;
+  shape: 'block' | 'bar'; // vi 插入模式使用細線游標，其他時候使用方塊游標
 }
 
 const TerminalWrapper = styled.div`
@@ -94,12 +118,17 @@ const Input = styled.input`
   &:focus {
     outline: none;
   }
+  
+  /* 讀取密碼等不顯示的輸入時不顯示任何字元 */
+  &[type='password'] {
+    color: transparent;
+  }
 `;
 
 const Cursor = styled.div<CursorProps>`
   position: absolute;
   background-color: ${props => props.theme.foreground};
-  width: 12px;
+  width: ${props => (props.shape === 'bar' ? '2px' : '12px')};
   height: 20px;
   top: 50%;
   transform: translateY(-50%);
@@ -151,14 +180,6 @@ const CommandHistory = styled.div`
   flex-direction: column;
 `;
 
-const FileText = styled.span`
-  color: ${props => props.theme.fileColor};
-`;
-
-const DirectoryText = styled.span`
-  color: ${props => props.theme.directoryColor};
-`;
-
 // 定義 Rick Roll 相關的樣式
 const RickRollContainer = styled.div`
   font-family: monospace;
@@ -202,31 +223,13 @@ const RickRollArt = styled(SystemMessage)`
   white-space: pre;
 `;
 
-// 定義檔案系統的類型
-interface FileItem {
-  type: 'file';
-  content: string[];
-  contentEn?: string[]; // 英文內容
-  permissions: string; // 如 "rw-r--r--"
-  owner: string;
-  group: string;
-  lastModified: Date;
-}
-
-interface DirectoryItem {
-  type: 'directory';
-  content: Record<string, FileSystemItem>;
-  permissions: string; // 如 "rwxr-xr-x"
-  owner: string;
-  group: string;
-  lastModified: Date;
-}
-
-type FileSystemItem = FileItem | DirectoryItem;
+// 建立初始的檔案系統結構，內容在建置時由 content/ 資料夾產生
+const createFileSystem = (): FileSystem => ({
+  '~': deserializeItem(contentHome)
+});
 
-interface FileSystem {
-  [key: string]: FileSystemItem;
-}
+// 非完整功能模式下隱藏的資料夾
+const RESTRICTED_FOLDERS = ['about', 'skills', 'projects', 'contact', '.github', 'secrets'];
 
 // 啟動序列消息
 const bootMessages = [
@@ -237,48 +240,130 @@ const bootMessages = [
   { msg: { 'zh_TW': '系統已就緒! 啟動完成。', 'en_US': 'System ready! Boot complete.' }, delay: 30 },
 ];
 
+// ASCII Art 名字
+const asciiName = [
+  "  _____                _                   ",
+  " |  __ \\              (_)                  ",
+  " | |  | |  ___ __   __ _  ___   ___  _ __ ",
+  " | |  | | / _ \\\\ \\ / /| |/ __| / _ \\| '__|",
+  " | |__| ||  __/ \\ V / | |\\__ \\|  __/| |   ",
+  " |_____/  \\___|  \\_/  |_||___/ \\___||_|   ",
+  "                                           ",
+];
+
+// 添加更多boot style的消息常量
+const getBootHeader = (): string[] => [
+  "DeviOS 1.0.0 (Terminal System) " + new Date().toISOString(),
+  "Copyright (c) " + new Date().getFullYear() + " Deviser. All rights reserved.",
+  "---------------------------------------------------------------",
+  ""
+];
+
+// 啟動標頭的行數，計算啟動階段時使用
+const BOOT_HEADER_LINES = getBootHeader().length;
+
+// 根據啟動階段返回適當的延遲時間
+const getDelayForStage = (stage: number): number => {
+  if (stage < BOOT_HEADER_LINES) {
+    return 30; // 頭部信息顯示速度
+  } else if (stage < BOOT_HEADER_LINES + asciiName.length) {
+    return 10; // ASCII 藝術顯示速度
+  } else {
+    // 啟動消息顯示速度
+    return bootMessages[stage - BOOT_HEADER_LINES - asciiName.length].delay;
+  }
+};
+
+// 將命令結果轉換為標準輸出文字，錯誤訊息屬於標準錯誤，不會傳入管道
+const getOutputText = (results: CommandResult[]): string => {
+  return results
+    .filter(result => result.type !== 'error')
+    .map(result => {
+      const text = result.text ?? (typeof result.content === 'string' ? result.content : '');
+      return `${text}\n`;
+    })
+    .join('');
+};
+
+// 將結果附加到最後一個輸出項目
+const appendToLastEntry = (history: OutputEntry[], results: CommandResult[]): OutputEntry[] => {
+  return history.map((entry, index) => (
+    index === history.length - 1 ? { ...entry, result: [...entry.result, ...results] } : entry
+  ));
+};
+
 const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
+  // 上次保存的工作階段，用於恢復檔案系統與終端機狀態
+  const [savedSession] = useState(loadSession);
+  
+  // 出廠的檔案系統保持不變，保存時只記錄與它不同的部分，reset 時以它恢復
+  const [factoryFileSystem] = useState<FileSystem>(createFileSystem);
+  
+  // 檔案系統在整個工作階段中保持同一個物件，寫入操作會直接修改其內容
+  const [fileSystem] = useState<FileSystem>(() => {
+    const restored = cloneFileSystem(factoryFileSystem);
+    if (savedSession) {
+      applyOverlay(restored, savedSession.overlay);
+    }
+    return restored;
+  });
+  
   // 狀態定義
   const [input, setInput] = useState('');
-  const [language, setLanguage] = useState<Language>('zh_TW');
-  const [commandHistory, setCommandHistory] = useState<string[]>([]);
+  const [language, setLanguage] = useState<Language>(savedSession?.language ?? 'zh_TW');
+  const [commandHistory, setCommandHistory] = useState<string[]>(savedSession?.commandHistory ?? []);
   const [historyIndex, setHistoryIndex] = useState<number>(-1);
-  const [outputHistory, setOutputHistory] = useState<{command: string, result: CommandResult[]}[]>([]);
-  const [userName, setUserName] = useState<string>('user');
-  const [currentDirectory, setCurrentDirectory] = useState<string>('~');
+  // history 命令與歷史展開需要立即看到目前這一行，使用 ref 中的歷史
+  const commandHistoryRef = useRef<string[]>(commandHistory);
+  const [historySearch, setHistorySearch] = useState<HistorySearch | null>(null);
+  const [outputHistory, setOutputHistory] = useState<OutputEntry[]>([]);
+  const [isFullFeatured, setIsFullFeatured] = useState<boolean>(savedSession?.isFullFeatured ?? false);
+  const [userName, setUserName] = useState<string>(isFullFeatured ? 'deviser' : 'user');
+  // 恢復保存的目前目錄，目錄已不存在或在目前模式下被隱藏時回到主目錄
+  const [currentDirectory, setCurrentDirectory] = useState<string>(() => {
+    const directory = savedSession?.currentDirectory ?? '~';
+    const parts = resolvePath(directory, { cwd: '~', user: userName }) ?? [];
+    const item = findItem(fileSystem, parts);
+    const isHidden = !isFullFeatured && RESTRICTED_FOLDERS.includes(parts[0]);
+    return item?.type === 'directory' && !isHidden ? formatPath(parts) : '~';
+  });
   const [cursorPosition, setCursorPosition] = useState<number>(0);
   const [isBooting, setIsBooting] = useState<boolean>(false);
   const [bootStage, setBootStage] = useState<number>(bootMessages.length);
   const [isRickRolling, setIsRickRolling] = useState<boolean>(false);
-  const [isRoot, setIsRoot] = useState<boolean>(false);
+  const isRootRef = useRef<boolean>(false); // sudo 執行命令期間以 root 身分執行
   const [groups] = useState<string[]>(['users']);
-  const [passwordAttempts, setPasswordAttempts] = useState<number>(0);
-  const [isSudoPrompt, setIsSudoPrompt] = useState<boolean>(false);
-  const [sudoCommand, setSudoCommand] = useState<string>('');
-  const [isFullFeatured, setIsFullFeatured] = useState<boolean>(false);
+  const passwordRef = useRef<string>('password'); // sudo 與 passwd 使用的密碼
+  // 命令透過 readSecret 讀取密碼時，輸入框以提示文字取代提示符；secretRequestRef 接收使用者按下 Enter 後的輸入
+  const [secretPrompt, setSecretPrompt] = useState<string | null>(null);
+  const secretRequestRef = useRef<((value: string) => void) | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const outputRef = useRef<HTMLDivElement>(null);
-  const [previousDirectory, setPreviousDirectory] = useState<string | null>(null);
+  // 命令執行時使用 ref 中的目錄，使同一命令列中後續的命令（如 cd a && ls）立即看到變更
+  const cwdRef = useRef<string>(currentDirectory);
+  const previousDirectoryRef = useRef<string | null>(null);
   const [hostName] = useState<string>('terminal');
+  const variablesRef = useRef<Map<string, ShellVariable>>(new Map());
+  const lastStatusRef = useRef<number>(0); // 上一個命令的結束狀態，供 $? 使用
+  const aliasesRef = useRef<Map<string, string>>(new Map());
+  // 上一次按下 Tab 後的游標位置與輸入行，用於判斷是否連續按下兩次 Tab
+  const lastTabRef = useRef<string | null>(null);
+  // 輸入行編輯：kill ring、上一個編輯動作（連續刪除合併、連續輸入合併為一次復原）、Ctrl+Y 貼上的範圍與復原記錄
+  const killRingRef = useRef<string[]>([]);
+  const lastEditRef = useRef<LineEditAction | null>(null);
+  const yankRef = useRef<{ start: number; end: number; index: number } | null>(null);
+  const undoStackRef = useRef<LineState[]>([]);
+  // set -o vi / set -o emacs 切換的編輯模式；vi 模式下按 Esc 進入命令模式，d 與 c 等待之後的移動範圍
+  const [editingMode, setEditingMode] = useState<EditingMode>('emacs');
+  const [isViCommandMode, setIsViCommandMode] = useState<boolean>(false);
+  const pendingOperatorRef = useRef<'d' | 'c' | null>(null);
+  // 前景工作執行期間隱藏提示符，jobsRef 保存所有執行中的工作以便卸載時取消
+  const foregroundJobRef = useRef<Job | null>(null);
+  const jobsRef = useRef<Set<Job>>(new Set());
+  const [isJobRunning, setIsJobRunning] = useState<boolean>(false);
   
-  // ASCII Art 名字
-  const asciiName = [
-    "  _____                _                   ",
-    " |  __ \\              (_)                  ",
-    " | |  | |  ___ __   __ _  ___   ___  _ __ ",
-    " | |  | | / _ \\\\ \\ / /| |/ __| / _ \\| '__|",
-    " | |__| ||  __/ \\ V / | |\\__ \\|  __/| |   ",
-    " |_____/  \\___|  \\_/  |_||___/ \\___||_|   ",
-    "                                           ",
-  ];
-  
-  // 添加更多boot style的消息常量
-  const bootHeader = [
-    "DeviOS 1.0.0 (Terminal System) " + new Date().toISOString(),
-    "Copyright (c) " + new Date().getFullYear() + " Deviser. All rights reserved.",
-    "---------------------------------------------------------------",
-    ""
-  ];
+  // 啟動畫面的標頭包含目前的時間
+  const bootHeader = getBootHeader();
   
   // 添加 Rick Roll ASCII 藝術和歌詞
   const rickRollArt = [
@@ -311,773 +396,179 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
     " 永不放棄你  永不讓你失望  永不轉身離開你 "
   ];
 
-  // 定義語言資源
-  const textResources: TextResources = {
-    // 命令幫助文本
-    'help_title': {
-      'zh_TW': '=== 可用命令列表 ===',
-      'en_US': '=== Available Commands ==='
-    },
-    'help_ls': {
-      'zh_TW': 'ls          - 列出當前目錄內容',
-      'en_US': 'ls          - List directory contents'
-    },
-    'help_cd': {
-      'zh_TW': 'cd [目錄]    - 切換目錄',
-      'en_US': 'cd [dir]    - Change directory'
-    },
-    'help_cat': {
-      'zh_TW': 'cat [檔案]   - 顯示檔案內容',
-      'en_US': 'cat [file]  - Display file contents'
-    },
-    'help_pwd': {
-      'zh_TW': 'pwd         - 顯示當前路徑',
-      'en_US': 'pwd         - Print working directory'
-    },
-    'help_whoami': {
-      'zh_TW': 'whoami      - 顯示當前使用者',
-      'en_US': 'whoami      - Display current user'
-    },
-    'help_date': {
-      'zh_TW': 'date        - 顯示當前日期',
-      'en_US': 'date        - Display current date'
-    },
-    'help_man': {
-      'zh_TW': 'man [命令]   - 顯示命令說明',
-      'en_US': 'man [cmd]   - Display command manual'
-    },
-    'help_echo': {
-      'zh_TW': 'echo [文字]  - 顯示文字',
-      'en_US': 'echo [text] - Display text'
-    },
-    'help_uname': {
-      'zh_TW': 'uname       - 顯示系統資訊',
-      'en_US': 'uname       - Display system info'
-    },
-    'help_find': {
-      'zh_TW': 'find        - 搜尋檔案或目錄',
-      'en_US': 'find        - Search files or directories'
-    },
-    'help_mkdir': {
-      'zh_TW': 'mkdir       - 建立目錄',
-      'en_US': 'mkdir       - Create directory'
-    },
-    'help_github': {
-      'zh_TW': 'github      - 顯示GitHub資訊',
-      'en_US': 'github      - Display GitHub info'
-    },
-    'help_theme': {
-      'zh_TW': 'theme       - 切換亮色/暗色主題',
-      'en_US': 'theme       - Toggle light/dark theme'
-    },
-    'help_lang': {
-      'zh_TW': 'lang        - 切換語言 (中文/英文)',
-      'en_US': 'lang        - Change language (Chinese/English)'
-    },
-    'help_clear': {
-      'zh_TW': 'clear       - 清除畫面',
-      'en_US': 'clear       - Clear screen'
-    },
-    'help_exit': {
-      'zh_TW': 'exit        - 離開終端機',
-      'en_US': 'exit        - Exit terminal'
-    },
-    'help_shortcuts': {
-      'zh_TW': '鍵盤快捷鍵:',
-      'en_US': 'Keyboard shortcuts:'
-    },
-    'help_ctrl_c': {
-      'zh_TW': 'Ctrl+C        - 中斷當前命令',
-      'en_US': 'Ctrl+C        - Interrupt current command'
-    },
-    'help_ctrl_l': {
-      'zh_TW': 'Ctrl+L        - 清除畫面',
-      'en_US': 'Ctrl+L        - Clear screen'
-    },
-    'help_ctrl_d': {
-      'zh_TW': 'Ctrl+D        - 登出 (當輸入為空時)',
-      'en_US': 'Ctrl+D        - Logout (when input is empty)'
-    },
-    'help_ctrl_u': {
-      'zh_TW': 'Ctrl+U        - 清除當前輸入行',
-      'en_US': 'Ctrl+U        - Clear current input line'
-    },
-    'help_tab': {
-      'zh_TW': 'Tab           - 自動完成命令',
-      'en_US': 'Tab           - Auto-complete command'
-    },
-    'help_arrows': {
-      'zh_TW': '↑/↓           - 瀏覽命令歷史記錄',
-      'en_US': '↑/↓           - Browse command history'
-    },
-    
-    // 錯誤訊息
-    'err_cmd_not_found': {
-      'zh_TW': '命令未找到，輸入 "help" 查看可用命令',
-      'en_US': 'Command not found, type "help" to see available commands'
-    },
-    'err_invalid_option': {
-      'zh_TW': '無效的選項',
-      'en_US': 'Invalid option'
-    },
-    'err_dir_not_exist': {
-      'zh_TW': '沒有此目錄',
-      'en_US': 'No such directory'
-    },
-    'err_file_not_exist': {
-      'zh_TW': '檔案不存在或不是檔案',
-      'en_US': 'File does not exist or is not a file'
-    },
-    'err_missing_file': {
-      'zh_TW': '缺少檔案名稱',
-      'en_US': 'Missing filename'
-    },
-    'err_perm_denied': {
-      'zh_TW': '權限不足',
-      'en_US': 'Permission denied'
-    },
-    
-    // 系統訊息
-    'sys_welcome': {
-      'zh_TW': '歡迎來到 DeviOS 終端機系統!',
-      'en_US': 'Welcome to DeviOS Terminal System!'
-    },
-    'sys_last_login': {
-      'zh_TW': '上次登入：',
-      'en_US': 'Last login: '
-    },
-    'sys_os_version': {
-      'zh_TW': '系統：DeviOS 1.0.0 LTS',
-      'en_US': 'System: DeviOS 1.0.0 LTS'
-    },
-    'sys_enter_help': {
-      'zh_TW': '輸入 "help" 查看可用命令。',
-      'en_US': 'Type "help" to see available commands.'
-    },
-    'sys_theme_changed': {
-      'zh_TW': '主題已切換',
-      'en_US': 'Theme changed'
-    },
-    'sys_lang_changed': {
-      'zh_TW': '語言已切換為中文',
-      'en_US': 'Language changed to English'
-    },
-    'sys_lang_usage': {
-      'zh_TW': '使用方式: lang [zh|en]\n例如: lang en - 切換至英文\n      lang zh - 切換至中文',
-      'en_US': 'Usage: lang [zh|en]\nExample: lang en - Switch to English\n         lang zh - Switch to Chinese'
-    },
-    'sys_goodbye': {
-      'zh_TW': '感謝使用終端機風格個人網站，再見！',
-      'en_US': 'Thank you for using terminal-style portfolio website. Goodbye!'
-    },
-    'sys_logout': {
-      'zh_TW': 'logout',
-      'en_US': 'logout'
-    },
-    
-    // 目錄和導航
-    'nav_switch_to_dir': {
-      'zh_TW': '切換到 $1 目錄查看更多資訊',
-      'en_US': 'Switch to $1 directory to see more information'
-    },
-    'nav_use_cd': {
-      'zh_TW': '使用 "cd $1" 命令',
-      'en_US': 'Use "cd $1" command'
-    },
-    'nav_use_ls': {
-      'zh_TW': '請使用 "ls" 查看可用檔案，並使用 "cat [檔案名]" 閱讀內容',
-      'en_US': 'Please use "ls" to see available files, and "cat [filename]" to read content'
-    },
-    'nav_example': {
-      'zh_TW': '例如: $1',
-      'en_US': 'Example: $1'
-    },
-    'err_missing_operand': {
-      'zh_TW': '缺少操作數',
-      'en_US': 'missing operand'
-    }
-  };
-
   // 獲取對應語言的文本
-  const getText = (key: string, ...params: string[]): string => {
-    let text = textResources[key]?.[language] || key;
-    
-    // 替換參數
-    params.forEach((param, index) => {
-      text = text.replace(`$${index + 1}`, param);
-    });
-    
-    return text;
+  const getText = (key: string, ...params: string[]): string => getMessage(language, key, ...params);
+  
+  // 將路徑解析為主目錄底下的路徑元件，所有命令都透過它處理 .、..、~ 與絕對路徑
+  const resolve = (path: string): string[] | null => resolvePath(path, { cwd: cwdRef.current, user: userName });
+  
+  // 以路徑元件查找目前檔案系統中的項目
+  const getItemAt = (parts: string[] | null): FileSystemItem | null => parts && findItem(fileSystem, parts);
+  
+  // 非完整功能模式下隱藏特定資料夾及其內容
+  const isRestricted = (parts: string[] | null): boolean => {
+    return !isFullFeatured && parts !== null && RESTRICTED_FOLDERS.includes(parts[0]);
   };
   
-  // 定義檔案系統結構
-  const fileSystem: FileSystem = {
-    '~': {
-      type: 'directory',
-      content: {
-        'about': {
-          type: 'directory',
-          content: {
-            'bio.txt': {
-              type: 'file',
-              content: [
-                '====== 關於我 ======',
-                '我是一名熱衷於前端與全端開發的軟體工程師，擁有豐富的網頁應用開發經驗。',
-                '我熱愛創造直覺且美觀的使用者介面，並且重視程式碼品質與使用者體驗。',
-                '在工作之外，我也是開源專案的貢獻者，喜歡分享知識並持續學習新技術。',
-                '我的GitHub: https://github.com/Thetoicxdude'
-              ],
-              contentEn: [
-                '====== About Me ======',
-                'I am a software engineer passionate about frontend and full-stack development, with extensive experience in web application development.',
-                'I love creating intuitive and beautiful user interfaces, and I value code quality and user experience.',
-                'Outside of work, I am also an open-source contributor, enjoying knowledge sharing and continuously learning new technologies.',
-                'My GitHub: https://github.com/Thetoicxdude'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'education.txt': {
-              type: 'file',
-              content: [
-                '====== 教育背景 ======',
-                '2019-2023 - 計算機科學學士',
-                '主修領域：軟體工程、網頁開發、人工智能'
-              ],
-              contentEn: [
-                '====== Education ======',
-                '2019-2023 - Bachelor of Computer Science',
-                'Major fields: Software Engineering, Web Development, Artificial Intelligence'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'experience.txt': {
-              type: 'file',
-              content: [
-                '====== 工作經驗 ======',
-                '2022-至今 - 高級前端開發者',
-                '2020-2022 - 網頁開發實習生',
-                '主要職責：開發與維護企業級網頁應用，設計用戶介面，優化前端性能'
-              ],
-              contentEn: [
-                '====== Work Experience ======',
-                '2022-Present - Senior Frontend Developer',
-                '2020-2022 - Web Development Intern',
-                'Main responsibilities: Developing and maintaining enterprise web applications, designing user interfaces, optimizing frontend performance'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            }
-          },
-          permissions: 'rwxr-xr-x',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        },
-        'skills': {
-          type: 'directory',
-          content: {
-            'frontend.txt': {
-              type: 'file',
-              content: [
-                '====== 前端技術 ======',
-                'JavaScript/TypeScript ███████████ 95%',
-                'React.js            ██████████  90%',
-                'Vue.js              ████████    80%',
-                'HTML/CSS            ███████████ 95%'
-              ],
-              contentEn: [
-                '====== Frontend Technologies ======',
-                'JavaScript/TypeScript ███████████ 95%',
-                'React.js            ██████████  90%',
-                'Vue.js              ████████    80%',
-                'HTML/CSS            ███████████ 95%'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'backend.txt': {
-              type: 'file',
-              content: [
-                '====== 後端技術 ======',
-                'Node.js             ████████    80%',
-                'Express             ███████     70%',
-                'Python              ██████      60%',
-                'Database            ████████    80%'
-              ],
-              contentEn: [
-                '====== Backend Technologies ======',
-                'Node.js             ████████    80%',
-                'Express             ███████     70%',
-                'Python              ██████      60%',
-                'Database            ████████    80%'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'other.txt': {
-              type: 'file',
-              content: [
-                '====== 其他技能 ======',
-                'Git/GitHub          ██████████  90%',
-                'Discord Bots        ████████    80%',
-                'AI & ML             █████████   85%',
-                'Linux               █████████   85%'
-              ],
-              contentEn: [
-                '====== Other Skills ======',
-                'Git/GitHub          ██████████  90%',
-                'Discord Bots        ████████    80%',
-                'AI & ML             █████████   85%',
-                'Linux               █████████   85%'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            }
-          },
-          permissions: 'rwxr-xr-x',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        },
-        'projects': {
-          type: 'directory',
-          content: {
-            'terminal-portfolio': {
-              type: 'directory',
-              content: {
-                'README.md': {
-                  type: 'file',
-                  content: [
-                    '# 終端機風格個人網站',
-                    '使用 React 和 TypeScript 建立的終端機風格個人網站',
-                    '',
-                    '## 技術',
-                    '- React',
-                    '- TypeScript',
-                    '- Styled-Components',
-                    '',
-                    '## 功能',
-                    '- 互動式命令行介面',
-                    '- 主題切換',
-                    '- 響應式設計',
-                    '',
-                    '## 連結',
-                    'https://github.com/Thetoicxdude/terminal-portfolio'
-                  ],
-                  permissions: 'rw-r--r--',
-                  owner: 'deviser',
-                  group: 'users',
-                  lastModified: new Date()
-                }
-              },
-              permissions: 'rwxr-xr-x',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'ai-transformer': {
-              type: 'directory',
-              content: {
-                'README.md': {
-                  type: 'file',
-                  content: [
-                    '# AI Transformer',
-                    '實現和研究的Transformer模型專案',
-                    '',
-                    '## 技術',
-                    '- Python',
-                    '- PyTorch',
-                    '- 自然語言處理',
-                    '',
-                    '## 功能',
-                    '- 實現transformer架構',
-                    '- 文本處理與分析',
-                    '- 模型訓練與評估',
-                    '',
-                    '## 連結',
-                    'https://github.com/Thetoicxdude/Ai-transformer'
-                  ],
-                  permissions: 'rw-r--r--',
-                  owner: 'deviser',
-                  group: 'users',
-                  lastModified: new Date()
-                }
-              },
-              permissions: 'rwxr-xr-x',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'crowdfunding-platform': {
-              type: 'directory',
-              content: {
-                'README.md': {
-                  type: 'file',
-                  content: [
-                    '# 眾籌平台',
-                    '現代化的眾籌網站平台',
-                    '',
-                    '## 技術',
-                    '- JavaScript',
-                    '- React',
-                    '- Node.js',
-                    '- 支付整合',
-                    '',
-                    '## 功能',
-                    '- 專案創建與展示',
-                    '- 支付系統整合',
-                    '- 用戶認證',
-                    '- 專案管理儀表板',
-                    '',
-                    '## 連結',
-                    'https://github.com/Thetoicxdude/crowdfunding-platform'
-                  ],
-                  permissions: 'rw-r--r--',
-                  owner: 'deviser',
-                  group: 'users',
-                  lastModified: new Date()
-                }
-              },
-              permissions: 'rwxr-xr-x',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'implicit-sentiment-analysis': {
-              type: 'directory',
-              content: {
-                'README.md': {
-                  type: 'file',
-                  content: [
-                    '# 隱含情感分析模型',
-                    '用於分析文本中隱含情感的AI模型',
-                    '',
-                    '## 技術',
-                    '- Python',
-                    '- 機器學習',
-                    '- 自然語言處理',
-                    '- 深度學習',
-                    '',
-                    '## 功能',
-                    '- 情感分析',
-                    '- 文本分類',
-                    '- 隱含情感檢測',
-                    '',
-                    '## 連結',
-                    'https://github.com/Thetoicxdude/Implicit-sentiment-analysis-model'
-                  ],
-                  permissions: 'rw-r--r--',
-                  owner: 'deviser',
-                  group: 'users',
-                  lastModified: new Date()
-                }
-              },
-              permissions: 'rwxr-xr-x',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'starhub-server': {
-              type: 'directory',
-              content: {
-                'README.md': {
-                  type: 'file',
-                  content: [
-                    '# Starhub Server',
-                    '使用GitHub Pages建立的網站專案',
-                    '',
-                    '## 技術',
-                    '- HTML',
-                    '- CSS',
-                    '- JavaScript',
-                    '- GitHub Pages',
-                    '',
-                    '## 功能',
-                    '- 靜態網站展示',
-                    '- 資訊頁面',
-                    '- 響應式設計',
-                    '',
-                    '## 連結',
-                    'https://github.com/Thetoicxdude/Starhub-Server-.github.io'
-                  ],
-                  permissions: 'rw-r--r--',
-                  owner: 'deviser',
-                  group: 'users',
-                  lastModified: new Date()
-                }
-              },
-              permissions: 'rwxr-xr-x',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'zu-discord-bot': {
-              type: 'directory',
-              content: {
-                'README.md': {
-                  type: 'file',
-                  content: [
-                    '# Zu Discord Bot',
-                    'Discord聊天機器人專案',
-                    '',
-                    '## 技術',
-                    '- JavaScript/TypeScript',
-                    '- Discord.js',
-                    '- Node.js',
-                    '',
-                    '## 功能',
-                    '- 聊天指令處理',
-                    '- 自動化任務',
-                    '- 互動式回應',
-                    '- 音樂播放與管理',
-                    '',
-                    '## 連結',
-                    'https://github.com/Thetoicxdude/Zu-discord-bot'
-                  ],
-                  permissions: 'rw-r--r--',
-                  owner: 'deviser',
-                  group: 'users',
-                  lastModified: new Date()
-                }
-              },
-              permissions: 'rwxr-xr-x',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            }
-          },
-          permissions: 'rwxr-xr-x',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        },
-        'contact': {
-          type: 'directory',
-          content: {
-            'info.txt': {
-              type: 'file',
-              content: [
-                '====== 聯絡方式 ======',
-                '📧 Email: yourname@example.com',
-                '💼 LinkedIn: linkedin.com/in/yourprofile',
-                '🐱 GitHub: https://github.com/Thetoicxdude',
-                '🐦 Twitter: @yourhandle'
-              ],
-              contentEn: [
-                '====== Contact Information ======',
-                '📧 Email: yourname@example.com',
-                '💼 LinkedIn: linkedin.com/in/yourprofile',
-                '🐱 GitHub: https://github.com/Thetoicxdude',
-                '🐦 Twitter: @yourhandle'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'social.txt': {
-              type: 'file',
-              content: [
-                '====== 社交媒體 ======',
-                'Instagram: @yourhandle',
-                'Facebook: yourname',
-                'Discord: yourname#1234'
-              ],
-              contentEn: [
-                '====== Social Media ======',
-                'Instagram: @yourhandle',
-                'Facebook: yourname',
-                'Discord: yourname#1234'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            }
-          },
-          permissions: 'rwxr-xr-x',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        },
-        '.github': {
-          type: 'directory',
-          content: {
-            'profile.txt': {
-              type: 'file',
-              content: [
-                '====== GitHub 資訊 ======',
-                '用戶名: Thetoicxdude',
-                '個人檔案: https://github.com/Thetoicxdude',
-                '儲存庫數量: 11',
-                '追蹤者: 0',
-                '追蹤中: 1',
-                '成就: Pull Shark',
-                '',
-                '主要專案:',
-                '- Ai-transformer',
-                '- crowdfunding-platform',
-                '- Implicit-sentiment-analysis-model',
-                '- Starhub-Server-.github.io',
-                '- Zu-discord-bot'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            },
-            'stats.txt': {
-              type: 'file',
-              content: [
-                '====== GitHub 統計 ======',
-                '主要語言: JavaScript, Python, HTML, TypeScript',
-                '貢獻統計: 活躍貢獻者',
-                '星標專案: 4',
-                '',
-                '最近活動:',
-                '- 專案更新',
-                '- 提交代碼',
-                '- Fork了開源專案'
-              ],
-              permissions: 'rw-r--r--',
-              owner: 'deviser',
-              group: 'users',
-              lastModified: new Date()
-            }
-          },
-          permissions: 'rwxr-xr-x',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        },
-        'resume.pdf': {
-          type: 'file',
-          content: ['[PDF 文件內容 - 顯示為二進制]'],
-          permissions: 'rw-r--r--',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        },
-        '.bashrc': {
-          type: 'file',
-          content: [
-            '# .bashrc',
-            'PS1="\\[\\033[01;32m\\]\\u@\\h\\[\\033[00m\\]:\\[\\033[01;34m\\]\\w\\[\\033[00m\\]\\$ "',
-            'alias ll="ls -la"',
-            'alias la="ls -a"',
-            'alias l="ls -CF"',
-            'alias gh="cd ~/.github"'
-          ],
-          permissions: 'rw-r--r--',
-          owner: 'deviser',
-          group: 'users',
-          lastModified: new Date()
-        }
-      },
-      permissions: 'rwxr-xr-x',
-      owner: 'deviser',
-      group: 'users',
-      lastModified: new Date()
+  // 獲取檔案內容，根據當前語言返回
+  const getFileContent = (filePath: string): string[] | null => {
+    const result = openFile(filePath);
+    return 'lines' in result ? result.lines : null; // 檔案不存在或無法讀取
+  };
+  
+  // 讀取檔案內容供命令使用，檔案不存在、是目錄或沒有讀取權限時返回錯誤訊息
+  const openFile = (filePath: string): { lines: string[] } | { error: string } => {
+    const parts = resolve(filePath);
+    const item = isRestricted(parts) ? null : getItemAt(parts);
+    if (!item) {
+      return { error: getText('err_no_such_file') };
+    }
+    if (item.type === 'directory') {
+      return { error: getText('err_is_directory') };
     }
+    if (!checkPermission(item, 'read')) {
+      return { error: getText('err_perm_denied') };
+    }
+    return { lines: getLocalizedContent(item) };
   };
   
-  // 獲取當前目錄的內容，修復類型錯誤
-  const getCurrentDirectoryContent = (): Record<string, FileSystemItem> | null => {
-    const path = currentDirectory === '~' ? ['~'] : currentDirectory.split('/');
-    
-    let current: any = fileSystem;
-    for (const dir of path) {
-      if (!dir) continue; // 處理連續的斜線
-      if (current[dir] && current[dir].type === 'directory') {
-        current = current[dir].content;
-      } else {
-        return null; // 目錄不存在
-      }
+  // 列出目錄中的項目供命令使用，與 ls 相同需要讀取與執行權限
+  const readDirectory = (path: string): { entries: DirectoryEntry[] } | { error: string } => {
+    const parts = resolve(path);
+    const item = isRestricted(parts) ? null : getItemAt(parts);
+    if (!parts || !item) {
+      return { error: getText('err_no_such_file') };
     }
-    
-    return current as Record<string, FileSystemItem>;
+    if (item.type !== 'directory') {
+      return { error: getText('err_not_directory') };
+    }
+    if (!checkPermission(item, 'read') || !checkPermission(item, 'execute')) {
+      return { error: getText('err_perm_denied') };
+    }
+    const entries = Object.entries(item.content)
+      .filter(([name]) => !isRestricted([...parts, name]))
+      .map(([name, child]) => ({ name, type: child.type }));
+    return { entries };
   };
   
-  // 獲取檔案內容，根據當前語言返回
-  const getFileContent = (filePath: string): string[] | null => {
-    const isAbsolutePath = filePath.startsWith('/');
-    const normalizedPath = isAbsolutePath 
-      ? filePath.substring(1) // 去掉開頭的斜線
-      : (currentDirectory === '~' 
-        ? filePath 
-        : `${currentDirectory.substring(2)}/${filePath}`);
+  // 根據當前語言返回檔案內容
+  const getLocalizedContent = (item: FileItem): string[] => {
+    return language === 'en_US' && item.contentEn ? item.contentEn : item.content;
+  };
+  
+  // 同步由終端機狀態衍生的環境變數
+  useEffect(() => {
+    const variables = variablesRef.current;
+    variables.set('USER', { value: userName, exported: true });
+    variables.set('HOME', { value: `/home/${userName}`, exported: true });
+    variables.set('HOSTNAME', { value: hostName, exported: true });
+  }, [userName, hostName]);
+  
+  useEffect(() => {
+    variablesRef.current.set('PWD', { value: toAbsolutePath(currentDirectory, userName), exported: true });
+  }, [currentDirectory, userName]);
+  
+  useEffect(() => {
+    variablesRef.current.set('LANG', { value: `${language}.UTF-8`, exported: true });
+  }, [language]);
+  
+  // 每個命令執行完畢後保存工作階段，檔案系統只保存與出廠內容不同的部分
+  useEffect(() => {
+    if (isJobRunning) {
+      return;
+    }
+    saveSession({
+      overlay: diffFileSystem(factoryFileSystem, fileSystem),
+      commandHistory,
+      currentDirectory,
+      language,
+      isFullFeatured
+    });
+  }, [factoryFileSystem, fileSystem, commandHistory, currentDirectory, language, isFullFeatured, isJobRunning]);
+  
+  // deviser 服務啟動後的歡迎訊息
+  const getServiceWelcome = (): CommandResult[] => [
+    { 
+      type: 'system', 
+      content: getText('sys_welcome')
+    },
+    { 
+      type: 'success', 
+      content: getText('sys_last_login') + new Date().toLocaleString() 
+    },
+    { 
+      type: 'system',
+      content: getText('sys_os_version')
+    },
+    { 
+      type: 'info',
+      content: getText('sys_enter_help')
+    }
+  ];
+  
+  // 只在掛載或啟動階段改變時執行的效果透過 ref 使用最新的狀態與處理函數，不會使用建立效果時的過期閉包
+  const latestRef = useRef<{ isFullFeatured: boolean; language: Language; sourceFile: typeof sourceFile; getServiceWelcome: typeof getServiceWelcome } | null>(null);
+  useLayoutEffect(() => {
+    latestRef.current = { isFullFeatured, language, sourceFile, getServiceWelcome };
+  });
+  
+  // 初始化時顯示歡迎訊息
+  useEffect(() => {
+    let cancelled = false;
     
-    const parts = normalizedPath.split('/').filter(p => p);
+    const showWelcome = async () => {
+      // 載入 ~/.bashrc 中的別名與環境變數，其輸出接在歡迎訊息之後
+      const bashrcResults = await latestRef.current!.sourceFile('~/.bashrc');
+      if (cancelled) {
+        return;
+      }
+      const { isFullFeatured, language, getServiceWelcome } = latestRef.current!;
     
-    let current: any = fileSystem['~'].content;
-    for (let i = 0; i < parts.length - 1; i++) {
-      const part = parts[i];
-      if (current[part] && current[part].type === 'directory') {
-        current = current[part].content;
-      } else {
-        return null; // 路徑不存在
+      // 恢復的工作階段已啟動 deviser 服務時，直接顯示服務的歡迎訊息
+      if (isFullFeatured) {
+        setOutputHistory([{ command: '', result: [...getServiceWelcome(), ...bashrcResults] }]);
+        return;
       }
-    }
     
-    const fileName = parts[parts.length - 1];
-    if (current[fileName] && current[fileName].type === 'file') {
-      // 根據當前語言返回相應內容
-      if (language === 'en_US' && current[fileName].contentEn) {
-        return current[fileName].contentEn as string[];
+      // 根據當前語言顯示相應的歡迎訊息
+      if (language === 'zh_TW') {
+        setOutputHistory([{
+          command: '',
+          result: [
+            { type: 'system', content: '=========== Deviser 終端機 v1.0.0 ===========' },
+            { type: 'success', content: '歡迎使用 Deviser 終端機風格個人網站！' },
+            { type: 'info', content: '基本使用說明:' },
+            { type: 'success', content: '輸入 "help" 查看可用命令列表' },
+            { type: 'success', content: '輸入 "deviser start" 啟動 deviser 服務。' },
+            ...bashrcResults
+          ]
+        }]);
+      } else {
+        setOutputHistory([{
+          command: '',
+          result: [
+            { type: 'system', content: '=========== Deviser Terminal v1.0.0 ===========' },
+            { type: 'success', content: 'Welcome to Deviser Terminal-style Personal Website!' },
+            { type: 'info', content: 'Basic Usage Guide:' },
+            { type: 'success', content: '1. Type "help" to see available commands' },
+            { type: 'info', content: 'Start exploring! Type "deviser start" to enable all features.' },
+            ...bashrcResults
+          ]
+        }]);
       }
-      return current[fileName].content as string[];
-    }
+    };
     
-    return null; // 檔案不存在
-  };
-  
-  // 初始化時顯示歡迎訊息
-  useEffect(() => {
-    // 根據當前語言顯示相應的歡迎訊息
-    if (language === 'zh_TW') {
-      setOutputHistory([{
-        command: '',
-        result: [
-          { type: 'system', content: '=========== Deviser 終端機 v1.0.0 ===========' },
-          { type: 'success', content: '歡迎使用 Deviser 終端機風格個人網站！' },
-          { type: 'info', content: '基本使用說明:' },
-          { type: 'success', content: '輸入 "help" 查看可用命令列表' },
-          { type: 'success', content: '輸入 "deviser start" 啟動 deviser 服務。' }
-        ]
-      }]);
-    } else {
-      setOutputHistory([{
-        command: '',
-        result: [
-          { type: 'system', content: '=========== Deviser Terminal v1.0.0 ===========' },
-          { type: 'success', content: 'Welcome to Deviser Terminal-style Personal Website!' },
-          { type: 'info', content: 'Basic Usage Guide:' },
-          { type: 'success', content: '1. Type "help" to see available commands' },
-          { type: 'info', content: 'Start exploring! Type "deviser start" to enable all features.' }
-        ]
-      }]);
-    }
+    showWelcome();
+    return () => {
+      cancelled = true;
+    };
   }, []);
   
   useEffect(() => {
     // 模擬啟動序列
     if (isBooting) {
       // 計算總的啟動階段數
-      const totalStages = bootHeader.length + asciiName.length + bootMessages.length;
+      const totalStages = BOOT_HEADER_LINES + asciiName.length + bootMessages.length;
       
       if (bootStage < totalStages) {
         const timer = setTimeout(() => {
@@ -1092,26 +583,7 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
           setIsBooting(false);
           
           // 顯示歡迎消息
-          const welcomeMessages: CommandResult[] = [
-            { 
-              type: 'system', 
-              content: getText('sys_welcome')
-            },
-            { 
-              type: 'success', 
-              content: getText('sys_last_login') + new Date().toLocaleString() 
-            },
-            { 
-              type: 'system',
-              content: getText('sys_os_version')
-            },
-            { 
-              type: 'info',
-              content: getText('sys_enter_help')
-            }
-          ];
-          
-          setOutputHistory([{ command: '', result: welcomeMessages }]);
+          setOutputHistory([{ command: '', result: latestRef.current!.getServiceWelcome() }]);
         }, 800); // 啟動完成後等待800ms再顯示歡迎信息
         
         return () => clearTimeout(finishTimer);
@@ -1124,17 +596,6 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
     }
   }, [isBooting, bootStage, language]);
   
-  // 根據啟動階段返回適當的延遲時間
-  const getDelayForStage = (stage: number): number => {
-    if (stage < bootHeader.length) {
-      return 30; // 頭部信息顯示速度
-    } else if (stage < bootHeader.length + asciiName.length) {
-      return 10; // ASCII 藝術顯示速度
-    } else {
-      // 啟動消息顯示速度
-      return bootMessages[stage - bootHeader.length - asciiName.length].delay;
-    }
-  };
 
   useEffect(() => {
     // 確保輸出框始終滾動到底部
@@ -1155,20 +616,142 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
   }, [outputHistory, bootStage, isBooting]);
 
   useEffect(() => {
-    // 更新光標位置
-    setCursorPosition(input.length);
-    
-    // 保持輸入框聚焦
+    // 保持輸入框聚焦，命令讀取密碼時輸入框會在執行期間出現
     if (inputRef.current) {
       inputRef.current.focus();
     }
-  }, [input]);
+  }, [input, secretPrompt]);
+
+  // 將結果附加到最後一個輸出項目，執行中的命令會逐步顯示輸出
+  const appendOutput = (results: CommandResult[]) => {
+    if (results.length === 0) {
+      return;
+    }
+    setOutputHistory(prev => appendToLastEntry(prev, results));
+  };
+
+  // 以前景工作執行命令，執行期間隱藏提示符，完成或被 Ctrl+C 取消後恢復
+  // 命令的非預期錯誤顯示在輸出中，不會使提示符停留在執行中的狀態
+  const runJob = async (task: () => Promise<void>): Promise<void> => {
+    const job = createJob();
+    jobsRef.current.add(job);
+    foregroundJobRef.current = job;
+    setIsJobRunning(true);
+    try {
+      await task();
+    } catch (error) {
+      if (!(error instanceof JobCancelledError)) {
+        lastStatusRef.current = 1;
+        appendOutput([{ type: 'error', content: getText('err_internal', error instanceof Error ? error.message : String(error)) }]);
+      }
+    } finally {
+      jobsRef.current.delete(job);
+      if (foregroundJobRef.current === job) {
+        foregroundJobRef.current = null;
+        setIsJobRunning(false);
+      }
+    }
+  };
+
+  // 長時間執行的命令透過前景工作建立計時器；沒有前景工作時（如載入 ~/.bashrc）使用獨立的工作
+  const getForegroundJob = (): Job => foregroundJobRef.current ?? createJob();
+
+  // 前景工作執行期間輸入框不顯示（讀取密碼時除外），改由全域的鍵盤事件處理 Ctrl+C：取消工作並清除其計時器
+  useEffect(() => {
+    if (!isJobRunning) {
+      return;
+    }
+    
+    const handleInterrupt = (e: KeyboardEvent) => {
+      const job = foregroundJobRef.current;
+      if (e.ctrlKey && e.key === 'c' && job) {
+        e.preventDefault();
+        job.cancel();
+        lastStatusRef.current = 130;
+        setOutputHistory(prev => appendToLastEntry(prev, [{ type: 'error', content: '^C' }]));
+      }
+    };
+    window.addEventListener('keydown', handleInterrupt);
+    return () => window.removeEventListener('keydown', handleInterrupt);
+  }, [isJobRunning]);
+
+  // 卸載時取消所有執行中的工作
+  useEffect(() => {
+    const jobs = jobsRef.current;
+    return () => jobs.forEach(job => job.cancel());
+  }, []);
 
-  const handleCommandSubmit = (e: React.FormEvent) => {
+  // 自訂游標與輸入框的選取位置各自獨立，以程式修改輸入行後將選取位置移到自訂游標，避免之後的 onSelect 將游標移回原處
+  useLayoutEffect(() => {
+    const element = inputRef.current;
+    if (element && element.selectionStart !== cursorPosition) {
+      element.setSelectionRange(cursorPosition, cursorPosition);
+    }
+  }, [input, cursorPosition]);
+  
+  // 修改輸入行並記錄修改前的狀態供 Ctrl+_ 復原，連續的一般輸入只記錄一次
+  const applyEdit = (next: LineState, action: LineEditAction = 'edit') => {
+    if (next.text !== input && !(action === 'insert' && lastEditRef.current === 'insert')) {
+      undoStackRef.current.push({ text: input, cursor: cursorPosition });
+    }
+    setInput(next.text);
+    setCursorPosition(next.cursor);
+    lastEditRef.current = action;
+  };
+  
+  // 切換到另一行（送出命令或瀏覽歷史）時清除復原記錄
+  const replaceLine = (text: string) => {
+    undoStackRef.current = [];
+    setInput(text);
+    setCursorPosition(text.length);
+  };
+  
+  // 刪除 [start, end) 的文字並加入 kill ring，連續刪除的文字合併為一項
+  const killText = (start: number, end: number, previousEdit: LineEditAction | null) => {
+    if (start === end) {
+      return;
+    }
+    const append = previousEdit === 'kill' ? (end <= cursorPosition ? 'before' : 'after') : null;
+    killRingRef.current = addToKillRing(killRingRef.current, input.substring(start, end), append);
+    applyEdit(deleteRange({ text: input, cursor: cursorPosition }, start, end), 'kill');
+  };
+  
+  // Ctrl+Y 貼上最近刪除的文字，之後的 Alt+Y 以 kill ring 中較舊的文字取代剛貼上的文字
+  const yankText = (previousEdit: LineEditAction | null, pop: boolean) => {
+    const ring = killRingRef.current;
+    const yank = yankRef.current;
+    if (ring.length === 0 || (pop && (previousEdit !== 'yank' || !yank))) {
+      return;
+    }
+    const index = pop && yank ? (yank.index + 1) % ring.length : 0;
+    const state = pop && yank ? deleteRange({ text: input, cursor: cursorPosition }, yank.start, yank.end) : { text: input, cursor: cursorPosition };
+    const next = insertText(state, ring[index]);
+    yankRef.current = { start: state.cursor, end: next.cursor, index };
+    applyEdit(next, 'yank');
+  };
+  
+  // 更新命令歷史，同步保存到 ref 供同一命令列中的命令使用
+  const updateCommandHistory = (history: string[]) => {
+    commandHistoryRef.current = history;
+    setCommandHistory(history);
+  };
+  
+  const handleCommandSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setHistorySearch(null);
+    // vi 模式的每一行都從插入模式開始
+    setIsViCommandMode(false);
     
-    // 如果是sudo密碼輸入，不顯示密碼
-    const displayCmd = isSudoPrompt ? '' : input;
+    // 命令正在讀取不顯示的輸入時將輸入交給命令，只有提示文字留在輸出中，輸入不會加入歷史
+    if (secretPrompt !== null) {
+      const submit = secretRequestRef.current;
+      secretRequestRef.current = null;
+      setSecretPrompt(null);
+      appendOutput([{ type: 'system', content: secretPrompt }]);
+      replaceLine('');
+      submit?.(input);
+      return;
+    }
     
     // 即使沒有命令也添加到歷史記錄
     if (!input.trim()) {
@@ -1177,24 +760,34 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
       return;
     }
     
-    // 將命令添加到歷史記錄中，但如果是密碼則不添加
-    if (!isSudoPrompt) {
-      setCommandHistory(prev => [...prev, input]);
-    }
+    // 清空輸入
+    replaceLine('');
     setHistoryIndex(-1);
     
-    // 處理命令
-    const result = processCommand(input.trim());
+    // 展開 !!、!n、!-n、!prefix 與 ^old^new，展開後的命令會先顯示出來
+    let command = input;
+    try {
+      command = expandHistory(input, commandHistoryRef.current) ?? input;
+    } catch (error) {
+      if (!(error instanceof HistoryExpansionError)) {
+        throw error;
+      }
+      const key = error.kind === 'event' ? 'err_event_not_found' : 'err_substitution_failed';
+      setOutputHistory(prev => [...prev, { command: input, result: [{ type: 'error', content: getText(key, error.token) }] }]);
+      return;
+    }
+    
+    // 將展開後的命令添加到歷史記錄中
+    updateCommandHistory([...commandHistoryRef.current, command]);
     
-    // 添加到輸出歷史記錄
-    setOutputHistory(prev => [...prev, { command: displayCmd, result }]);
+    // 先添加到輸出歷史記錄，命令的輸出會陸續附加到這個項目
+    setOutputHistory(prev => [...prev, { command: input, result: command !== input ? [{ type: 'info', content: command }] : [] }]);
     
-    // 清空輸入
-    setInput('');
-    setCursorPosition(0);
+    // 以前景工作處理命令
+    await runJob(() => runCommandLine(command.trim(), appendOutput));
     
     // 如果是clear命令，則自動滾動
-    if (input.trim().toLowerCase() === 'clear') {
+    if (command.trim().toLowerCase() === 'clear') {
       setTimeout(() => {
         if (outputRef.current) {
           outputRef.current.scrollTop = 0;
@@ -1203,30 +796,278 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
     }
   };
   
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    // 處理上下箭頭鍵瀏覽命令歷史
-    if (e.key === 'ArrowUp') {
-      e.preventDefault();
-      if (historyIndex < commandHistory.length - 1) {
-        const newIndex = historyIndex + 1;
-        setHistoryIndex(newIndex);
-        setInput(commandHistory[commandHistory.length - 1 - newIndex]);
+  // 自動完成的候選項目：命令名稱、選項、固定的參數或路徑，路徑保留輸入的目錄部分且目錄以 / 結尾
+  const getCompletionCandidates = ({ word, command }: CompletionTarget): string[] => {
+    const getNames = (names: string[]) => [...new Set(names)].filter(name => name.startsWith(word)).sort();
+    const definition = command === null ? undefined : findCommand(getCommands(), command);
+    if (command === null) {
+      return getNames([...getCommandNames(getCommands(), isFullFeatured), ...aliasesRef.current.keys()]);
+    }
+    if (definition && word.startsWith('-')) {
+      return getNames(getOptionNames(definition));
+    }
+    const completion = definition?.completion ?? 'path';
+    if (completion === 'command') {
+      return getNames(getCommandNames(getCommands(), isFullFeatured));
+    }
+    if (Array.isArray(completion)) {
+      return getNames(completion);
+    }
+    if (word === '~') {
+      return ['~/'];
+    }
+    
+    // 列出單字中目錄部分的項目，名稱以 . 開頭時才包含隱藏檔案
+    const directory = word.substring(0, word.lastIndexOf('/') + 1);
+    const prefix = word.substring(directory.length);
+    const listing = readDirectory(directory || '.');
+    if (!('entries' in listing)) {
+      return [];
+    }
+    return listing.entries
+      .filter(entry => entry.name.startsWith(prefix) && (prefix.startsWith('.') || !entry.name.startsWith('.')))
+      .filter(entry => completion === 'path' || entry.type === 'directory')
+      .map(entry => `${directory}${entry.name}${entry.type === 'directory' ? '/' : ''}`)
+      .sort();
+  };
+  
+  // 與 bash 相同，在目前的輸入行之後依終端機寬度分欄列出候選項目，路徑只顯示最後一個元件
+  const showCompletionCandidates = (candidates: string[]) => {
+    const labels = candidates.map(candidate => candidate.substring(candidate.lastIndexOf('/', candidate.length - 2) + 1));
+    const widths = labels.map(label => getDisplayWidth(label));
+    const { rows, columnWidths } = layoutColumns(widths, getTerminalColumns());
+    const content = (
+      <>
+        {rows.map(row => (
+          <ListingRow key={row[0]}>
+            {row.map((index, column) => (column < row.length - 1 ? labels[index] + ' '.repeat(columnWidths[column] - widths[index]) : labels[index])).join('')}
+          </ListingRow>
+        ))}
+      </>
+    );
+    setOutputHistory(prev => [...prev, { command: input, result: [{ type: 'success', content, text: labels.join('\n') }] }]);
+  };
+  
+  // 增量搜尋時的按鍵處理：輸入的字元加入搜尋字串，Ctrl+R / Ctrl+S 尋找下一個符合的命令，Ctrl+G 取消搜尋
+  // 其他按鍵結束搜尋並返回 false，以一般的方式處理（如 Enter 執行找到的命令）
+  const handleSearchKey = (e: React.KeyboardEvent, search: HistorySearch): boolean => {
+    // 目前找到的命令在歷史中的位置，與 ↑/↓ 共用 historyIndex
+    const current = commandHistory.length - 1 - historyIndex;
+    const find = (query: string, direction: SearchDirection, start: number) => {
+      const index = query ? searchHistory(commandHistory, query, start, direction) : -1;
+      if (index !== -1) {
+        setInput(commandHistory[index]);
+        setCursorPosition(commandHistory[index].indexOf(query));
+        setHistoryIndex(commandHistory.length - 1 - index);
       }
-    } else if (e.key === 'ArrowDown') {
+      setHistorySearch({ ...search, query, direction, failed: query !== '' && index === -1 });
+    };
+    
+    if (['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'].includes(e.key)) {
+      return true;
+    }
+    if (e.ctrlKey && (e.key === 'r' || e.key === 's')) {
       e.preventDefault();
-      if (historyIndex > 0) {
-        const newIndex = historyIndex - 1;
-        setHistoryIndex(newIndex);
-        setInput(commandHistory[commandHistory.length - 1 - newIndex]);
-      } else if (historyIndex === 0) {
-        setHistoryIndex(-1);
-        setInput('');
-      }
-    } else if (e.key === 'ArrowLeft') {
-      // 更新光標位置 - 左移
-      const newPosition = Math.max(0, cursorPosition - 1);
-      setCursorPosition(newPosition);
-    } else if (e.key === 'ArrowRight') {
+      const direction = e.key === 'r' ? 'reverse' : 'forward';
+      find(search.query, direction, current + (direction === 'reverse' ? -1 : 1));
+      return true;
+    }
+    if (e.ctrlKey && e.key === 'g') {
+      e.preventDefault();
+      setInput(search.original);
+      setCursorPosition(search.original.length);
+      setHistoryIndex(commandHistory.length - 1 - search.origin);
+      setHistorySearch(null);
+      return true;
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setHistorySearch(null);
+      return true;
+    }
+    if (e.key === 'Backspace') {
+      e.preventDefault();
+      find(search.query.slice(0, -1), search.direction, current);
+      return true;
+    }
+    if (e.key.length === 1 && !e.ctrlKey && !e.altKey && !e.metaKey) {
+      e.preventDefault();
+      find(search.query + e.key, search.direction, current);
+      return true;
+    }
+    setHistorySearch(null);
+    return false;
+  };
+  
+  // ↑/↓ 與 vi 的 k/j 瀏覽命令歷史，step 為 1 時往較舊的命令；已經到底時返回 false
+  const browseHistory = (step: 1 | -1): boolean => {
+    const newIndex = historyIndex + step;
+    if (newIndex < -1 || newIndex >= commandHistory.length) {
+      return false;
+    }
+    setHistoryIndex(newIndex);
+    replaceLine(newIndex === -1 ? '' : commandHistory[commandHistory.length - 1 - newIndex]);
+    return true;
+  };
+  
+  // vi 命令模式的按鍵：移動、刪除、修改、貼上、復原、瀏覽歷史與進入插入模式
+  // 返回 false 時以一般的方式處理按鍵（如 Enter 執行命令、Ctrl 組合鍵）
+  const handleViCommandKey = (e: React.KeyboardEvent, line: LineState): boolean => {
+    const { text, cursor } = line;
+    // 命令模式的游標停在字元上，不會超過最後一個字元
+    const lastChar = Math.max(text.length - 1, 0);
+    const operator = pendingOperatorRef.current;
+    pendingOperatorRef.current = null;
+    
+    const key = e.key === 'Backspace' ? 'h' : e.key;
+    if (key === 'Escape') {
+      e.preventDefault();
+      return true;
+    }
+    if (key.length !== 1 || e.ctrlKey || e.altKey || e.metaKey) {
+      return false;
+    }
+    e.preventDefault();
+    
+    // 刪除 [start, end) 並放入 kill ring 供 p 貼上，insert 時接著進入插入模式
+    const deleteText = (start: number, end: number, insert: boolean) => {
+      if (start < end) {
+        killRingRef.current = addToKillRing(killRingRef.current, text.substring(start, end), null);
+      }
+      const next = deleteRange(line, start, end);
+      applyEdit(insert ? next : { text: next.text, cursor: Math.min(next.cursor, Math.max(next.text.length - 1, 0)) });
+      setIsViCommandMode(!insert);
+    };
+    const enterInsertMode = (position: number) => {
+      setCursorPosition(position);
+      setIsViCommandMode(false);
+    };
+    const motions: Record<string, () => number> = {
+      h: () => Math.max(cursor - 1, 0),
+      l: () => Math.min(cursor + 1, text.length),
+      w: () => findNextViWord(text, cursor),
+      b: () => findPreviousViWord(text, cursor),
+      e: () => findViWordEnd(text, cursor),
+      '0': () => 0,
+      $: () => text.length
+    };
+    
+    if (operator) {
+      // dd 與 cc 作用於整行，e 與 $ 包含目標字元，cw 與 ce 相同不包含單字後的空白
+      const motion = operator === 'c' && key === 'w' ? 'e' : key;
+      if (key === operator) {
+        deleteText(0, text.length, operator === 'c');
+      } else if (motions[motion]) {
+        const target = motion === 'e' && text.length > 0 ? motions[motion]() + 1 : motions[motion]();
+        deleteText(Math.min(cursor, target), Math.max(cursor, target), operator === 'c');
+      }
+      return true;
+    }
+    
+    if (motions[key]) {
+      setCursorPosition(Math.min(motions[key](), lastChar));
+      return true;
+    }
+    switch (key) {
+      case 'd':
+      case 'c':
+        pendingOperatorRef.current = key;
+        break;
+      case 'x':
+        deleteText(cursor, Math.min(cursor + 1, text.length), false);
+        break;
+      case 'D':
+      case 'C':
+        deleteText(cursor, text.length, key === 'C');
+        break;
+      case 'p':
+      case 'P':
+        // p 貼在游標之後，P 貼在游標之前，游標停在貼上的最後一個字元
+        if (killRingRef.current.length > 0) {
+          const position = key === 'p' && text.length > 0 ? cursor + 1 : cursor;
+          const next = insertText({ text, cursor: position }, killRingRef.current[0]);
+          applyEdit({ text: next.text, cursor: next.cursor - 1 });
+        }
+        break;
+      case 'u':
+        undoLastEdit();
+        break;
+      case 'i':
+        enterInsertMode(cursor);
+        break;
+      case 'a':
+        enterInsertMode(Math.min(cursor + 1, text.length));
+        break;
+      case 'I':
+        enterInsertMode(0);
+        break;
+      case 'A':
+        enterInsertMode(text.length);
+        break;
+      case 'k':
+      case 'j':
+        if (browseHistory(key === 'k' ? 1 : -1)) {
+          setCursorPosition(0);
+        }
+        break;
+    }
+    return true;
+  };
+  
+  // Ctrl+_ 與 vi 的 u 復原上一次修改
+  const undoLastEdit = () => {
+    const previous = undoStackRef.current.pop();
+    if (previous) {
+      setInput(previous.text);
+      setCursorPosition(previous.cursor);
+    }
+  };
+  
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // 讀取不顯示的輸入時只接受一般輸入、Backspace 與 Enter，Ctrl+C 由前景工作的中斷處理
+    if (secretPrompt !== null) {
+      if (e.key !== 'Backspace' && e.key !== 'Enter' && (e.key.length !== 1 || e.ctrlKey || e.altKey || e.metaKey)) {
+        e.preventDefault();
+      }
+      return;
+    }
+    
+    if (historySearch && handleSearchKey(e, historySearch)) {
+      return;
+    }
+    
+    // vi 模式：插入模式下按 Esc 進入命令模式，游標與 vi 相同往左移一格
+    if (editingMode === 'vi') {
+      if (!isViCommandMode && e.key === 'Escape') {
+        e.preventDefault();
+        setIsViCommandMode(true);
+        setCursorPosition(Math.max(cursorPosition - 1, 0));
+        return;
+      }
+      if (isViCommandMode && handleViCommandKey(e, { text: input, cursor: cursorPosition })) {
+        return;
+      }
+    }
+    
+    // 一般輸入的字元之外的按鍵都會中斷連續的刪除與輸入
+    const previousEdit = lastEditRef.current;
+    if (!['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'].includes(e.key) && (e.key.length !== 1 || e.ctrlKey || e.altKey || e.metaKey)) {
+      lastEditRef.current = null;
+    }
+    const line = { text: input, cursor: cursorPosition };
+    
+    // 處理上下箭頭鍵瀏覽命令歷史
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      browseHistory(1);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      browseHistory(-1);
+    } else if (e.key === 'ArrowLeft') {
+      // 更新光標位置 - 左移
+      const newPosition = Math.max(0, cursorPosition - 1);
+      setCursorPosition(newPosition);
+    } else if (e.key === 'ArrowRight') {
       // 更新光標位置 - 右移
       const newPosition = Math.min(input.length, cursorPosition + 1);
       setCursorPosition(newPosition);
@@ -1238,22 +1079,17 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
       setCursorPosition(input.length);
     } else if (e.key === 'Tab') {
       e.preventDefault();
-      // 簡單的自動完成
-      if (input.startsWith('p')) {
-        setInput('projects');
-      } else if (input.startsWith('a')) {
-        setInput('about');
-      } else if (input.startsWith('s')) {
-        setInput('skills');
-      } else if (input.startsWith('c')) {
-        setInput('contact');
-      } else if (input.startsWith('t')) {
-        setInput('theme');
-      } else if (input.startsWith('h')) {
-        setInput('help');
-      } else if (input.startsWith('cl')) {
-        setInput('clear');
+      // 唯一符合時補上完整的項目，否則補到共同前綴；連續兩次 Tab 沒有進展時列出所有候選項目
+      const target = getCompletionTarget(input, cursorPosition);
+      const candidates = getCompletionCandidates(target);
+      const completed = applyCompletion(input, cursorPosition, target, candidates);
+      const tabState = completed ? `${completed.cursor}:${completed.line}` : `${cursorPosition}:${input}`;
+      if (completed) {
+        applyEdit({ text: completed.line, cursor: completed.cursor });
+      } else if (candidates.length > 1 && lastTabRef.current === tabState) {
+        showCompletionCandidates(candidates);
       }
+      lastTabRef.current = completed && candidates.length === 1 ? null : tabState;
     } else if (e.ctrlKey) {
       // Linux 快捷鍵
       switch (e.key) {
@@ -1264,8 +1100,7 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
               command: input, 
               result: [{ type: 'error', content: '^C' }] 
             }]);
-            setInput('');
-            setCursorPosition(0);
+            replaceLine('');
           } else {
             setOutputHistory(prev => [...prev, { 
               command: '', 
@@ -1279,9 +1114,11 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
           setOutputHistory([]);
           break;
 
-        case 'd': // Ctrl+D 登出/EOF
+        case 'd': // Ctrl+D 刪除游標處的字元，輸入行為空時登出/EOF
           e.preventDefault();
-          if (!input) {
+          if (input) {
+            applyEdit(deleteRange(line, cursorPosition, Math.min(cursorPosition + 1, input.length)));
+          } else {
             setOutputHistory(prev => [...prev, { 
               command: '', 
               result: [
@@ -1289,8 +1126,9 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
                 { type: 'system', content: '感謝使用終端機風格個人網站！' }
               ] 
             }]);
-            // 可以添加一個模擬重新登入的延遲
-            setTimeout(() => {
+            // 以前景工作模擬重新登入的延遲，期間可以按 Ctrl+C 取消
+            runJob(async () => {
+              await getForegroundJob().sleep(2000);
               setOutputHistory([{
                 command: '',
                 result: [
@@ -1298,14 +1136,58 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
                   { type: 'info', content: '輸入 "help" 查看可用命令。' }
                 ]
               }]);
-            }, 2000);
+            });
           }
           break;
 
-        case 'u': // Ctrl+U 清除當前行
+        case 'r': // Ctrl+R 向較舊的命令增量搜尋
+        case 's': // Ctrl+S 向較新的命令增量搜尋
           e.preventDefault();
-          setInput('');
-          setCursorPosition(0);
+          setHistorySearch({
+            query: '',
+            direction: e.key === 'r' ? 'reverse' : 'forward',
+            origin: commandHistory.length - 1 - historyIndex,
+            original: input,
+            failed: false
+          });
+          break;
+
+        case 'u': // Ctrl+U 刪除游標前的所有文字
+          e.preventDefault();
+          killText(0, cursorPosition, previousEdit);
+          break;
+
+        case 'k': // Ctrl+K 刪除游標後的所有文字
+          e.preventDefault();
+          killText(cursorPosition, input.length, previousEdit);
+          break;
+
+        case 'w': // Ctrl+W 刪除游標前以空白分隔的單字
+          e.preventDefault();
+          killText(findUnixWordStart(input, cursorPosition), cursorPosition, previousEdit);
+          break;
+
+        case 'y': // Ctrl+Y 貼上最近刪除的文字
+          e.preventDefault();
+          yankText(previousEdit, false);
+          break;
+
+        case 'h': // Ctrl+H 刪除游標前的字元
+          e.preventDefault();
+          if (cursorPosition > 0) {
+            applyEdit(deleteRange(line, cursorPosition - 1, cursorPosition));
+          }
+          break;
+
+        case 't': // Ctrl+T 對調游標前後的字元
+          e.preventDefault();
+          applyEdit(transposeChars(line));
+          break;
+
+        case '_': // Ctrl+_ 復原上一次修改
+        case '/':
+          e.preventDefault();
+          undoLastEdit();
           break;
 
         case 'a': // Ctrl+A 移至行首
@@ -1317,821 +1199,638 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
           e.preventDefault();
           setCursorPosition(input.length);
           break;
+
+        case 'b': // Ctrl+B 左移一個字元
+          e.preventDefault();
+          setCursorPosition(Math.max(0, cursorPosition - 1));
+          break;
+
+        case 'f': // Ctrl+F 右移一個字元
+          e.preventDefault();
+          setCursorPosition(Math.min(input.length, cursorPosition + 1));
+          break;
+      }
+    } else if (e.altKey) {
+      // Alt 組合鍵以實體按鍵判斷，macOS 的 Option 會改變輸入的字元
+      switch (e.code) {
+        case 'KeyB': // Alt+B 移至前一個單字的開頭
+          e.preventDefault();
+          setCursorPosition(findWordStart(input, cursorPosition));
+          break;
+
+        case 'KeyF': // Alt+F 移至下一個單字的結尾
+          e.preventDefault();
+          setCursorPosition(findWordEnd(input, cursorPosition));
+          break;
+
+        case 'Backspace': // Alt+Backspace 刪除游標前的單字
+          e.preventDefault();
+          killText(findWordStart(input, cursorPosition), cursorPosition, previousEdit);
+          break;
+
+        case 'KeyD': // Alt+D 刪除游標後的單字
+          e.preventDefault();
+          killText(cursorPosition, findWordEnd(input, cursorPosition), previousEdit);
+          break;
+
+        case 'KeyY': // Alt+Y 以 kill ring 中較舊的文字取代剛貼上的文字
+          e.preventDefault();
+          yankText(previousEdit, true);
+          break;
       }
     }
   };
   
-  const processCommand = (cmd: string): CommandResult[] => {
-    // 處理 sudo 密碼輸入
-    if (isSudoPrompt) {
-      setIsSudoPrompt(false);
-      
-      // 檢查密碼 (這裡簡化為 "password")
-      if (cmd === 'password') {
-        setIsRoot(true);
-        
-        // 執行原始 sudo 命令
-        const originalCmd = sudoCommand;
-        setSudoCommand('');
-        
-        return [
-          { type: 'system', content: '' }, // 密碼不顯示
-          ...processCommand(originalCmd)
-        ];
-      } else {
-        setPasswordAttempts(prev => prev + 1);
-        
-        if (passwordAttempts >= 2) {
-          setPasswordAttempts(0);
-          setSudoCommand('');
-          return [{ type: 'error', content: 'sudo: 3 次錯誤的密碼嘗試' }];
-        }
-        
-        return [{ type: 'error', content: 'sudo: 認證失敗' }];
+  // 語法錯誤的訊息，結束狀態為 2（無效的參數展開為 1）
+  const reportSyntaxError = (error: ShellSyntaxError): CommandOutput => {
+    const keys = {
+      unterminated: 'err_unterminated_quote',
+      unexpected: 'err_syntax_token',
+      substitution: 'err_bad_substitution'
+    };
+    return fail([{ type: 'error', content: getText(keys[error.kind], error.token) }], error.kind === 'substitution' ? 1 : 2);
+  };
+
+  // 讀取不顯示在畫面上的輸入（如密碼），使用者按下 Enter 後返回輸入的內容；工作被取消（Ctrl+C）時以 JobCancelledError 拒絕
+  const readSecret = (prompt: string, signal: AbortSignal): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new JobCancelledError());
+        return;
       }
-    }
+      const handleAbort = () => {
+        secretRequestRef.current = null;
+        setSecretPrompt(null);
+        replaceLine('');
+        reject(new JobCancelledError());
+      };
+      signal.addEventListener('abort', handleAbort, { once: true });
+      secretRequestRef.current = value => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value);
+      };
+      setSecretPrompt(prompt);
+    });
+  };
 
-    // 特殊處理，支援管道和重定向
-    if (cmd.includes('|')) {
-      return [{ type: 'error', content: '目前尚未支援管道功能 (|)' }];
+  // 以 root 身分執行命令列，完成後恢復為原本的使用者
+  const runAsRoot = async (cmd: string, output: OutputSink): Promise<void> => {
+    isRootRef.current = true;
+    variablesRef.current.set('USER', { value: 'root', exported: true });
+    try {
+      await runCommandLine(cmd, output);
+    } finally {
+      isRootRef.current = false;
+      variablesRef.current.set('USER', { value: userName, exported: true });
     }
+  };
 
-    if (cmd.includes('>') || cmd.includes('>>')) {
-      return [{ type: 'error', content: '目前尚未支援重定向功能 (> 或 >>)' }];
+  // 分析並執行命令列（或腳本中已切分的命令），執行前展開別名；引號、管道或參數展開的語法錯誤直接回報
+  const runCommandLine = async (cmd: string | Token[], output: OutputSink): Promise<void> => {
+    try {
+      const tokens = typeof cmd === 'string' ? tokenize(cmd) : cmd;
+      await runCommandList(parseCommandList(expandAliases(tokens, aliasesRef.current)), output);
+    } catch (error) {
+      if (error instanceof ShellSyntaxError) {
+        const syntaxError = reportSyntaxError(error);
+        lastStatusRef.current = syntaxError.exitCode;
+        output(syntaxError.results);
+        return;
+      }
+      throw error;
     }
+  };
 
-    // 檢查是否是 rm -rf 命令
-    if (cmd.startsWith('rm -rf') || cmd.startsWith('rm -fr')) {
-      return rickRoll();
-    }
+  // 在目前的 shell 中執行檔案（如 ~/.bashrc），返回所有輸出
+  const sourceFile = async (path: string): Promise<CommandResult[]> => {
+    const results: CommandResult[] = [];
+    const collect: OutputSink = output => results.push(...output);
+    const { results: errors } = await runScriptFile(path, 'source', 'source', collect);
+    return [...results, ...errors];
+  };
 
-    const [command, ...args] = cmd.split(' ');
+  // 執行腳本檔案：mode 為 source 時在目前的 shell 中執行，sh 與 ./script 則在子 shell 中執行
+  // 透過路徑直接執行（exec）時檔案需要有執行權限
+  const runScriptFile = async (path: string, mode: 'source' | 'sh' | 'exec', name: string, output: OutputSink): Promise<CommandOutput> => {
+    const item = lookupPath(path);
+    const prefix = mode === 'exec' ? 'bash' : name;
+    if (!item) {
+      return fail([{ type: 'error', content: `${prefix}: ${path}: ${getText('err_no_such_file')}` }], mode === 'source' ? 1 : 127);
+    }
+    if (item.type === 'directory') {
+      return fail([{ type: 'error', content: `${prefix}: ${path}: ${getText('err_is_directory')}` }], mode === 'source' ? 1 : 126);
+    }
+    if (!checkPermission(item, 'read') || (mode === 'exec' && !checkPermission(item, 'execute'))) {
+      return fail([{ type: 'error', content: `${prefix}: ${path}: ${getText('err_perm_denied')}` }], mode === 'source' ? 1 : 126);
+    }
     
-    // 處理 deviser start 命令 - 啟用完整功能
-    if (command.toLowerCase() === 'deviser' && args[0]?.toLowerCase() === 'start') {
-      // 檢查模式是否已經啟用，避免重複啟動
-      if (isFullFeatured) {
-        return [
-          { type: 'info', content: 'deviser 服務已經啟動！' }
-        ];
-      }
+    return runScriptSource(item.content.join('\n'), mode === 'source' ? null : `${prefix}: ${path}`, output);
+  };
 
-      // 立即設置為 deviser 服務模式
-      setIsFullFeatured(true);
-      setUserName('deviser');
-      
-      // 設置啟動狀態和重置啟動階段
-      setIsBooting(true);
-      setBootStage(0);
-      
-      // 改進的啟動序列，有明顯的停頓感
-      const runBootSequence = async () => {
-        // 顯示初始啟動訊息
-        setOutputHistory(prev => [...prev, { 
-          command: 'deviser start', 
-          result: [{ type: 'system', content: '正在啟動 deviser 服務...' }] 
-        }]);
-        
-        // 使用更有節奏的延遲顯示啟動消息
-        for (let i = 0; i < bootMessages.length; i++) {
-          // 等待一段時間再顯示下一條消息
-          await new Promise(resolve => setTimeout(resolve, 600));
-          
-          // 添加啟動消息到輸出歷史
-          setOutputHistory(prev => {
-            const lastOutput = [...prev];
-            const lastIndex = lastOutput.length - 1;
-            
-            if (lastOutput[lastIndex]) {
-              const msg = bootMessages[i].msg[language];
-              lastOutput[lastIndex].result = [
-                ...lastOutput[lastIndex].result,
-                { type: 'system', content: msg }
-              ];
-            }
-            
-            return lastOutput;
-          });
-        }
-        
-        // 啟動完成後顯示成功消息並短暫停頓
-        await new Promise(resolve => setTimeout(resolve, 800));
-        
-        setOutputHistory(prev => {
-          const lastOutput = [...prev];
-          const lastIndex = lastOutput.length - 1;
-          
-          if (lastOutput[lastIndex]) {
-            lastOutput[lastIndex].result = [
-              ...lastOutput[lastIndex].result,
-              { type: 'success', content: 'deviser 服務已啟動！' }
-            ];
-          }
-          
-          return lastOutput;
-        });
-        
-        // 再等待一下，然後清空終端並設置為非啟動狀態
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // 清空終端，顯示乾淨的狀態
-        setOutputHistory([]);
-        
-        // 設置為非啟動狀態
-        setIsBooting(false);
-        
-        // 添加一條簡短的歡迎消息
-        setTimeout(() => {
-          setOutputHistory([{
-            command: '',
-            result: [
-              { 
-                type: 'success', 
-                content: language === 'zh_TW' 
-                  ? '✓ deviser 服務已成功啟動！輸入 "help" 查看可用命令。' 
-                  : '✓ deviser service started successfully! Type "help" to see available commands.'
-              }
-            ]
-          }]);
-        }, 100);
-      };
-      
-      // 運行改進的啟動序列
-      runBootSequence();
-      
-      return [];
+  // 分析並執行腳本內容，subshell 不為 null 時在子 shell 中執行（結束後還原變數與目錄），並作為錯誤訊息的前綴
+  const runScriptSource = async (source: string, subshell: string | null, output: OutputSink): Promise<CommandOutput> => {
+    let script: ScriptNode[];
+    try {
+      script = parseScript(source);
+    } catch (error) {
+      if (error instanceof ShellSyntaxError) {
+        const syntaxError = reportSyntaxError(error);
+        return subshell
+          ? { ...syntaxError, results: syntaxError.results.map(result => ({ ...result, content: `${subshell}: ${result.content}` })) }
+          : syntaxError;
+      }
+      throw error;
     }
     
-    // 非完整功能模式下的有限命令支援
-    if (!isFullFeatured) {
-      // 基本命令列表
-      const basicCommands = ['help', 'clear', 'echo', 'exit', 'deviser', 'ls', 'cd', 'cat', 'pwd', 'whoami', 'date', 'uname', 'lang'];
-      
-      if (!basicCommands.includes(command.toLowerCase()) && command.toLowerCase() !== '') {
-        return [
-          { type: 'error', content: language === 'zh_TW' ? `未知的命令: ${command}` : `Unknown command: ${command}` },
-          { type: 'info', content: language === 'zh_TW' ? '提示: 輸入 "deviser start" 以啟動 deviser 服務' : 'Tip: Type "deviser start" to start deviser service' },
-          { type: 'info', content: language === 'zh_TW' ? '輸入 "help" 查看基本命令列表' : 'Type "help" to see basic command list' }
-        ];
-      }
-      
-      // 基本幫助命令
-      if (command.toLowerCase() === 'help') {
-        if (language === 'zh_TW') {
-          return [
-            { type: 'system', content: '=== 基本命令列表 ===' },
-            { type: 'success', content: 'help        - 顯示此幫助信息' },
-            { type: 'success', content: 'ls          - 列出當前目錄內容' },
-            { type: 'success', content: 'cd [目錄]    - 切換目錄' },
-            { type: 'success', content: 'cat [檔案]   - 顯示檔案內容' },
-            { type: 'success', content: 'pwd         - 顯示當前路徑' },
-            { type: 'success', content: 'whoami      - 顯示當前使用者' },
-            { type: 'success', content: 'date        - 顯示當前日期' },
-            { type: 'success', content: 'clear       - 清除畫面' },
-            { type: 'success', content: 'echo [文字]  - 顯示文字' },
-            { type: 'success', content: 'uname       - 顯示系統資訊' },
-            { type: 'success', content: 'lang        - 切換語言 (中文/英文)' },
-            { type: 'success', content: 'deviser start - 啟動 deviser 服務' },
-            { type: 'success', content: 'exit        - 離開終端機' },
-            { type: 'info', content: '提示: 輸入 "deviser start" 以啟動 deviser 服務以顯示更多內容' }
-          ];
-        } else {
-          return [
-            { type: 'system', content: '=== Basic Command List ===' },
-            { type: 'success', content: 'help        - Show this help message' },
-            { type: 'success', content: 'ls          - List directory contents' },
-            { type: 'success', content: 'cd [dir]    - Change directory' },
-            { type: 'success', content: 'cat [file]  - Show file contents' },
-            { type: 'success', content: 'pwd         - Print working directory' },
-            { type: 'success', content: 'whoami      - Show current user' },
-            { type: 'success', content: 'date        - Show current date' },
-            { type: 'success', content: 'clear       - Clear screen' },
-            { type: 'success', content: 'echo [text] - Display text' },
-            { type: 'success', content: 'uname       - Display system information' },
-            { type: 'success', content: 'lang        - Change language (Chinese/English)' },
-            { type: 'success', content: 'deviser start - Start deviser service' },
-            { type: 'success', content: 'exit        - Exit terminal' },
-            { type: 'info', content: 'Tip: Type "deviser start" to start deviser service and see more content' }
-          ];
-        }
-      }
+    if (subshell === null) {
+      await runScript(script, output);
+      return { results: [], exitCode: lastStatusRef.current };
     }
     
-    switch (command.toLowerCase()) {
-      case 'help':
-        return [
-          { type: 'system', content: getText('help_title') },
-          { type: 'success', content: getText('help_ls') },
-          { type: 'success', content: getText('help_cd') },
-          { type: 'success', content: getText('help_cat') },
-          { type: 'success', content: getText('help_pwd') },
-          { type: 'success', content: getText('help_whoami') },
-          { type: 'success', content: getText('help_date') },
-          { type: 'success', content: getText('help_man') },
-          { type: 'success', content: getText('help_echo') },
-          { type: 'success', content: getText('help_uname') },
-          { type: 'success', content: getText('help_find') },
-          { type: 'success', content: getText('help_mkdir') },
-          { type: 'success', content: getText('help_github') },
-          { type: 'success', content: getText('help_theme') },
-          { type: 'success', content: getText('help_lang') },
-          { type: 'success', content: getText('help_clear') },
-          { type: 'success', content: getText('help_exit') },
-          { type: 'info', content: getText('help_shortcuts') },
-          { type: 'info', content: getText('help_ctrl_c') },
-          { type: 'info', content: getText('help_ctrl_l') },
-          { type: 'info', content: getText('help_ctrl_d') },
-          { type: 'info', content: getText('help_ctrl_u') },
-          { type: 'info', content: getText('help_tab') },
-          { type: 'info', content: getText('help_arrows') },
-        ];
-      
-      case 'about':
-        if (currentDirectory !== '~/about') {
-          return [
-            { type: 'info', content: getText('nav_switch_to_dir', 'about') },
-            { type: 'info', content: getText('nav_use_cd', 'about') }
-          ];
-        }
-        
-        return [
-          { type: 'info', content: '====== ' + (language === 'zh_TW' ? '關於我' : 'About Me') + ' ======' },
-          { type: 'success', content: getText('nav_use_ls') },
-          { type: 'success', content: getText('nav_example', 'cat bio.txt') }
-        ];
-      
-      case 'skills':
-        if (currentDirectory !== '~/skills') {
-          return [
-            { type: 'info', content: getText('nav_switch_to_dir', 'skills') },
-            { type: 'info', content: getText('nav_use_cd', 'skills') }
-          ];
-        }
-        
-        return [
-          { type: 'info', content: '====== ' + (language === 'zh_TW' ? '技能' : 'Skills') + ' ======' },
-          { type: 'success', content: getText('nav_use_ls') },
-          { type: 'success', content: getText('nav_example', 'cat frontend.txt') }
-        ];
-      
-      case 'projects':
-        if (currentDirectory !== '~/projects') {
-          return [
-            { type: 'info', content: getText('nav_switch_to_dir', 'projects') },
-            { type: 'info', content: getText('nav_use_cd', 'projects') }
-          ];
-        }
-        
-        return [
-          { type: 'info', content: '====== ' + (language === 'zh_TW' ? '專案列表' : 'Project List') + ' ======' },
-          { type: 'success', content: getText('nav_use_ls') },
-          { type: 'success', content: getText('nav_example', 'cd terminal-portfolio') }
-        ];
-      
-      case 'contact':
-        if (currentDirectory !== '~/contact') {
-          return [
-            { type: 'info', content: getText('nav_switch_to_dir', 'contact') },
-            { type: 'info', content: getText('nav_use_cd', 'contact') }
-          ];
-        }
-        
-        return [
-          { type: 'info', content: '====== ' + (language === 'zh_TW' ? '聯絡方式' : 'Contact Information') + ' ======' },
-          { type: 'success', content: getText('nav_use_ls') },
-          { type: 'success', content: getText('nav_example', 'cat info.txt') }
-        ];
-      
-      case 'github':
-        return [
-          { type: 'info', content: '====== GitHub 資訊 ======' },
-          { type: 'success', content: '用戶名: Thetoicxdude' },
-          { type: 'success', content: '個人檔案: https://github.com/Thetoicxdude' },
-          { type: 'success', content: '儲存庫數量: 11' },
-          { type: 'success', content: '成就: Pull Shark' },
-          { type: 'success', content: '主要專案:' },
-          { type: 'success', content: '- Ai-transformer: AI 模型研究' },
-          { type: 'success', content: '- crowdfunding-platform: 眾籌平台' },
-          { type: 'success', content: '- Implicit-sentiment-analysis-model: 情感分析' },
-          { type: 'success', content: '- Zu-discord-bot: Discord 機器人' },
-          { type: 'system', content: '可以使用 "cd .github" 和 "cat profile.txt" 查看更多資訊' }
-        ];
-        
-      case 'theme':
-        toggleTheme();
-        return [{ type: 'system', content: getText('sys_theme_changed') }];
-      
-      case 'clear':
-        // 清除畫面特殊處理
-        setTimeout(() => {
-          setOutputHistory([]);
-        }, 0);
-        return [];
-        
-      case 'ls':
-        // 獲得當前目錄
-        const currentDirContent = getCurrentDirectoryContent();
-        if (!currentDirContent) {
-          return [{ type: 'error', content: `無法獲取目錄內容: ${currentDirectory}` }];
-        }
-        
-        // 檢查 --help 參數
-        if (args.includes('--help')) {
-          return [
-            { type: 'system', content: language === 'zh_TW' ? 'LS(1)                   用戶命令                   LS(1)' : 'LS(1)                 User Commands                 LS(1)' },
-            { type: 'system', content: language === 'zh_TW' ? '名稱' : 'NAME' },
-            { type: 'success', content: language === 'zh_TW' ? '       ls - 列出目錄內容' : '       ls - list directory contents' },
-            { type: 'system', content: language === 'zh_TW' ? '簡介' : 'SYNOPSIS' },
-            { type: 'success', content: language === 'zh_TW' ? '       ls [選項]... [檔案]...' : '       ls [OPTION]... [FILE]...' },
-            { type: 'system', content: language === 'zh_TW' ? '描述' : 'DESCRIPTION' },
-            { type: 'success', content: language === 'zh_TW' ? '       列出指定檔案的資訊（預設為目前的目錄）。' : '       List information about the FILEs (the current directory by default).' },
-            { type: 'success', content: language === 'zh_TW' ? '       如果沒有選項，則會以字母順序排列項目。' : '       Sort entries alphabetically if none of -cftuvSUX nor --sort is specified.' },
-            { type: 'system', content: language === 'zh_TW' ? '選項' : 'OPTIONS' },
-            { type: 'success', content: language === 'zh_TW' ? '       -a, --all' : '       -a, --all' },
-            { type: 'success', content: language === 'zh_TW' ? '              不隱藏以 . 開頭的項目' : '              do not ignore entries starting with .' },
-            { type: 'success', content: language === 'zh_TW' ? '       -l     使用較長格式列出' : '       -l     use a long listing format' },
-            { type: 'info', content: language === 'zh_TW' ? '按 q 離開' : 'Press q to exit' },
-          ];
-        }
-        
-        const showHidden = args.includes('-a') || args.includes('-la') || args.includes('-al');
-        const showDetails = args.includes('-l') || args.includes('-la') || args.includes('-al');
-        
-        // 現在確定 currentDirContent 不是 null
-        let items = Object.keys(currentDirContent);
-        
-        // 如果不顯示隱藏檔案，則過濾出隱藏檔案
-        if (!showHidden) {
-          items = items.filter(item => !item.startsWith('.'));
-        }
-        
-        // 在非完整功能模式下過濾特定資料夾
-        if (!isFullFeatured) {
-          const hiddenFolders = ['about', 'skills', 'projects', 'contact', '.github'];
-          items = items.filter(item => !hiddenFolders.includes(item));
-        }
-        
-        if (items.length === 0) {
-          return [{ type: 'success', content: '' }]; // 空目錄
-        }
-        
-        // 對目錄和檔案排序，先顯示目錄，再顯示檔案
-        items.sort((a, b) => {
-          const aIsDir = currentDirContent[a].type === 'directory';
-          const bIsDir = currentDirContent[b].type === 'directory';
-          
-          if (aIsDir && !bIsDir) return -1;
-          if (!aIsDir && bIsDir) return 1;
-          return a.localeCompare(b);
-        });
-        
-        const lsResult: React.ReactNode[] = [];
-        
-        // 如果是詳細列表，每個項目一行
-        if (showDetails) {
-          for (const item of items) {
-            const fsItem = currentDirContent[item];
-            lsResult.push(
-              <div key={item}>
-                <span style={{ color: '#6c71c4' }}>{fsItem.permissions}</span>
-                {' '}<span style={{ color: '#859900' }}>{fsItem.owner}</span>
-                {' '}<span style={{ color: '#2aa198' }}>{fsItem.group}</span>
-                {' '}
-                {fsItem.type === 'directory' ? 
-                  <DirectoryText>{item}/</DirectoryText> : 
-                  <FileText>{item}</FileText>}
-              </div>
-            );
-          }
-        } else {
-          // 一般列表，項目並排顯示
-          for (const item of items) {
-            const fsItem = currentDirContent[item];
-            lsResult.push(
-              <span key={item} style={{ marginRight: '15px' }}>
-                {fsItem.type === 'directory' ? 
-                  <DirectoryText>{item}/</DirectoryText> : 
-                  <FileText>{item}</FileText>}
-              </span>
-            );
-          }
-        }
-        
-        return [{ 
-          type: 'success',
-          content: lsResult.length > 0 ? <>{lsResult}</> : ''
-        }];
-        
-      case 'pwd':
-        let fullPath = currentDirectory;
-        if (fullPath === '~') {
-          fullPath = `/home/${userName}`;
-        } else {
-          fullPath = `/home/${userName}${currentDirectory.substring(1)}`;
-        }
-        return [
-          { type: 'success', content: fullPath },
-        ];
-        
-      case 'whoami':
-        return [
-          { type: 'success', content: isRoot ? 'root' : userName },
-        ];
-        
-      case 'date':
-        return [
-          { type: 'success', content: new Date().toLocaleString() },
-        ];
-        
-      case 'cd':
-        if (args.length === 0) {
-          // cd 無參數時返回主目錄
-          setCurrentDirectory('~');
-          return [];
-        }
-        
-        const target = args[0];
-        
-        // 在非完整功能模式下限制訪問特定目錄
-        if (!isFullFeatured) {
-          const restrictedFolders = ['about', 'skills', 'projects', 'contact', '.github'];
-          if (restrictedFolders.includes(target)) {
-            return [{ type: 'error', content: language === 'zh_TW' ? `cd: ${target}: 沒有此目錄` : `cd: ${target}: No such directory` }];
+    // 子 shell 只繼承環境變數
+    const savedVariables = variablesRef.current;
+    const savedDirectory = cwdRef.current;
+    const savedPreviousDirectory = previousDirectoryRef.current;
+    variablesRef.current = new Map([...savedVariables]
+      .filter(([, variable]) => variable.exported)
+      .map(([name, variable]) => [name, { ...variable }]));
+    try {
+      await runScript(script, output);
+      return { results: [], exitCode: lastStatusRef.current };
+    } finally {
+      variablesRef.current = savedVariables;
+      previousDirectoryRef.current = savedPreviousDirectory;
+      if (cwdRef.current !== savedDirectory) {
+        cwdRef.current = savedDirectory;
+        setCurrentDirectory(savedDirectory);
+      }
+    }
+  };
+
+  // 依序執行腳本節點，if 以條件的結束狀態選擇分支，for 將展開後的每個單字指定給迴圈變數
+  const runScript = async (nodes: ScriptNode[], output: OutputSink): Promise<void> => {
+    for (const node of nodes) {
+      if (node.type === 'command') {
+        await runCommandLine(node.tokens, output);
+      } else if (node.type === 'if') {
+        let matched = false;
+        for (const { condition, body } of node.branches) {
+          await runScript(condition, output);
+          if (lastStatusRef.current === 0) {
+            await runScript(body, output);
+            matched = true;
+            break;
           }
         }
-        
-        // 處理 .. 返回上一級目錄
-        if (target === '..') {
-          if (currentDirectory === '~') {
-            return []; // 已經在主目錄，不做任何操作
-          }
-          
-          const parts = currentDirectory.split('/');
-          parts.pop(); // 移除最後一部分
-          
-          if (parts.length === 1 && parts[0] === '~') {
-            setCurrentDirectory('~');
+        if (!matched) {
+          if (node.elseBody) {
+            await runScript(node.elseBody, output);
           } else {
-            setCurrentDirectory(parts.join('/'));
-          }
-          
-          return [];
-        }
-        
-        // 處理 - 返回上一個目錄
-        if (target === '-') {
-          if (!previousDirectory) {
-            return [{ type: 'error', content: language === 'zh_TW' ? 'cd: 沒有先前的目錄' : 'cd: no previous directory' }];
+            lastStatusRef.current = 0;
           }
-          
-          const temp = currentDirectory;
-          setCurrentDirectory(previousDirectory);
-          setPreviousDirectory(temp);
-          
-          return [{ type: 'system', content: previousDirectory }];
         }
-        
-        // 處理絕對路徑
-        if (target.startsWith('/')) {
-          const newPath = target === '/' ? '~' : `~${target}`;
-          const dir = getDirectoryFromPath(newPath);
-          
-          if (!dir) {
-            return [{ type: 'error', content: language === 'zh_TW' ? `cd: ${target}: 沒有此目錄` : `cd: ${target}: No such directory` }];
-          }
-          
-          setPreviousDirectory(currentDirectory);
-          setCurrentDirectory(newPath);
-          return [];
-        }
-        
-        // 處理相對路徑
-        const newPath = currentDirectory === '~' 
-          ? `~/${target}` 
-          : `${currentDirectory}/${target}`;
-        
-        const dir = getDirectoryFromPath(newPath);
-        
-        if (!dir) {
-          return [{ type: 'error', content: language === 'zh_TW' ? `cd: ${target}: 沒有此目錄` : `cd: ${target}: No such directory` }];
-        }
-        
-        setPreviousDirectory(currentDirectory);
-        setCurrentDirectory(newPath);
-        return [];
-      
-      case 'cat':
-        if (args.length === 0) {
-          return [{ type: 'error', content: language === 'zh_TW' ? 'cat: 缺少檔案名稱' : 'cat: missing file name' }];
-        }
-        
-        // 在非完整功能模式下檢查是否嘗試訪問限制檔案
-        if (!isFullFeatured) {
-          // 檢查檔案是否在隱藏目錄中
-          if (args[0].includes('/')) {
-            const parts = args[0].split('/');
-            const firstDir = parts[0];
-            const restrictedFolders = ['about', 'skills', 'projects', 'contact', '.github'];
-            if (restrictedFolders.includes(firstDir)) {
-              return [{ type: 'error', content: language === 'zh_TW' ? `cat: ${args[0]}: 檔案不存在` : `cat: ${args[0]}: No such file` }];
-            }
-          }
-        }
-        
-        // 特殊處理 PDF 檔案下載
-        if (args[0] === 'resume.pdf') {
-          // 延遲執行下載進度條顯示
-          setTimeout(() => {
-            // 模擬下載進度
-            let progress = 0;
-            const progressInterval = setInterval(() => {
-              progress += 10;
-              if (progress <= 100) {
-                setOutputHistory(prev => {
-                  const lastOutput = [...prev];
-                  const lastIndex = lastOutput.length - 1;
-                  
-                  if (lastOutput[lastIndex]) {
-                    lastOutput[lastIndex].result = [
-                      { type: 'system', content: language === 'zh_TW' ? `正在下載 resume.pdf...` : `Downloading resume.pdf...` },
-                      { type: 'system', content: `[${Array(Math.floor(progress/10)).fill('=').join('')}${Array(10-Math.floor(progress/10)).fill(' ').join('')}] ${progress}%` }
-                    ];
-                  }
-                  
-                  return lastOutput;
-                });
-              } else {
-                clearInterval(progressInterval);
-                
-                // 下載完成後顯示成功訊息
-                setTimeout(() => {
-                  setOutputHistory(prev => {
-                    const lastOutput = [...prev];
-                    const lastIndex = lastOutput.length - 1;
-                    
-                    if (lastOutput[lastIndex]) {
-                      lastOutput[lastIndex].result = [
-                        ...lastOutput[lastIndex].result,
-                        { type: 'success', content: language === 'zh_TW' ? `下載完成！檔案已儲存至您的系統。` : `Download complete! File saved to your system.` },
-                        { type: 'system', content: language === 'zh_TW' ? `[PDF 文件內容 - 顯示為二進制]` : `[PDF content - displayed as binary]` }
-                      ];
-                    }
-                    
-                    return lastOutput;
-                  });
-                }, 500);
-              }
-            }, 200); // 每200毫秒更新一次進度
-          }, 500);
-          
-          // 立即返回初始訊息
-          return [
-            { type: 'system', content: language === 'zh_TW' ? `準備下載 resume.pdf...` : `Preparing to download resume.pdf...` },
-            { type: 'system', content: `[          ] 0%` }
-          ];
-        }
-        
-        const fileContent = getFileContent(args[0]);
-        if (fileContent) {
-          return fileContent.map(line => ({ 
-            type: 'success' as const, 
-            content: line 
-          }));
-        } else {
-          return [{ type: 'error', content: language === 'zh_TW' ? `cat: ${args[0]}: 檔案不存在` : `cat: ${args[0]}: No such file` }];
-        }
-        
-      case 'mkdir':
-        return [{ type: 'error', content: 'mkdir: 權限不足，無法建立目錄' }];
-        
-      case 'find':
-        if (args.length === 0) {
-          return [{ type: 'error', content: 'find: 缺少路徑和表達式' }];
-        }
-        
-        return [{ type: 'error', content: '目前尚未支援 find 命令的完整功能' }];
-        
-      case 'man':
-        if (args.length === 0) {
-          return [{ type: 'error', content: '你必須指定一個手冊頁。' }];
-        }
-        
-        switch (args[0]) {
-          case 'ls':
-            return [
-              { type: 'info', content: 'LS(1)                   用戶命令                   LS(1)' },
-              { type: 'system', content: '名稱' },
-              { type: 'success', content: '       ls - 列出目錄內容' },
-              { type: 'system', content: '簡介' },
-              { type: 'success', content: '       ls [選項]... [檔案]...' },
-              { type: 'system', content: '描述' },
-              { type: 'success', content: '       列出指定檔案的資訊（預設為目前的目錄）。' },
-              { type: 'success', content: '       如果沒有選項，則會以字母順序排列項目。' },
-              { type: 'system', content: '選項' },
-              { type: 'success', content: '       -a, --all' },
-              { type: 'success', content: '              不隱藏以 . 開頭的項目' },
-              { type: 'success', content: '       -l     使用較長格式列出' },
-              { type: 'info', content: '按 q 離開' },
-            ];
-          case 'cd':
-            return [
-              { type: 'info', content: language === 'zh_TW' ? 'CD(1)                    用戶命令                   CD(1)' : 'CD(1)                 User Commands                 CD(1)' },
-              { type: 'system', content: language === 'zh_TW' ? '名稱' : 'NAME' },
-              { type: 'success', content: language === 'zh_TW' ? '       cd - 變更目錄' : '       cd - change directory' },
-              { type: 'system', content: language === 'zh_TW' ? '簡介' : 'SYNOPSIS' },
-              { type: 'success', content: language === 'zh_TW' ? '       cd [目錄]' : '       cd [directory]' },
-              { type: 'system', content: language === 'zh_TW' ? '描述' : 'DESCRIPTION' },
-              { type: 'success', content: language === 'zh_TW' ? '       變更當前工作目錄為指定的目錄。' : '       Change the current working directory to the specified directory.' },
-              { type: 'success', content: language === 'zh_TW' ? '       預設的目錄是 HOME shell 變數的值。' : '       The default directory is the value of the HOME shell variable.' },
-              { type: 'info', content: language === 'zh_TW' ? '按 q 離開' : 'Press q to exit' },
-            ];
-          default:
-            return [{ type: 'error', content: `沒有 ${args[0]} 的手冊頁。` }];
-        }
-        
-      case 'echo':
-        if (args.length === 0) {
-          return [{ type: 'success', content: '' }];
-        }
-        return [{ type: 'success', content: args.join(' ') }];
-        
-      case 'uname':
-        if (args.includes('-a')) {
-          return [{ type: 'success', content: 'DeviOS 1.0.0 #1 SMP ' + new Date().toLocaleString() + ' x86_64 Personal Website Terminal' }];
-        }
-        return [{ type: 'success', content: 'DeviOS' }];
-        
-      case 'exit':
-      case 'logout':
-        return [
-          { type: 'system', content: getText('sys_logout') },
-          { type: 'system', content: getText('sys_goodbye') }
-        ];
-      
-      case 'rm':
-        // 檢查是否包含危險的參數組合
-        if (args.includes('-rf') || args.includes('-fr') || 
-            (args.includes('-r') && args.includes('-f')) || 
-            (args.includes('-f') && args.includes('-r'))) {
-          return rickRoll();
-        }
-        return [{ type: 'error', content: `rm: 危險操作已被系統攔截，請小心使用刪除命令！` }];
-      
-      case 'sudo':
-        if (args.length === 0) {
-          return [{ type: 'error', content: 'sudo: 缺少要執行的命令' }];
+      } else {
+        lastStatusRef.current = 0;
+        const values = await expandArguments(node.words, command => substituteCommand(command, output));
+        for (const value of values) {
+          const exported = variablesRef.current.get(node.name)?.exported ?? false;
+          variablesRef.current.set(node.name, { value, exported });
+          await runScript(node.body, output);
         }
-        
-        // 儲存要執行的命令並激活密碼提示
-        setSudoCommand(args.join(' '));
-        setIsSudoPrompt(true);
-        
-        return [{ type: 'system', content: `[sudo] ${userName} 的密碼:` }];
-      
-      case 'id':
-        return [
-          { type: 'success', content: `uid=${isRoot ? 0 : 1000}(${isRoot ? 'root' : userName}) gid=1000(${groups[0]}) 群組=${groups.join(',')}` },
-        ];
+      }
+    }
+  };
+
+  // 查詢 shell 變數與特殊參數
+  const lookupVariable = (name: string): string | undefined => {
+    if (name === '?') {
+      return String(lastStatusRef.current);
+    }
+    return variablesRef.current.get(name)?.value;
+  };
+
+  // 終端機一行可顯示的字元數，COLUMNS 變數優先，否則依輸出區域的寬度與字元寬度計算
+  const getTerminalColumns = (): number => {
+    const columns = Number(lookupVariable('COLUMNS'));
+    if (columns > 0) {
+      return columns;
+    }
+    const element = outputRef.current;
+    const context = element && document.createElement('canvas').getContext('2d');
+    if (!element || !context) {
+      return 80;
+    }
+    context.font = getComputedStyle(element).font;
+    const characterWidth = context.measureText('0').width;
+    return characterWidth > 0 ? Math.floor(element.clientWidth / characterWidth) : 80;
+  };
+
+  // 目前執行命令的使用者，sudo 期間為 root
+  const getCurrentUser = (): string => (isRootRef.current ? 'root' : userName);
+
+  // 切換目前目錄，同步更新提示符、PWD 與 cd - 使用的上一個目錄
+  const changeDirectory = (path: string) => {
+    previousDirectoryRef.current = cwdRef.current;
+    cwdRef.current = path;
+    setCurrentDirectory(path);
+    variablesRef.current.set('PWD', { value: toAbsolutePath(path, userName), exported: true });
+  };
+
+  // 依序執行命令列表：&& 只在前一個命令成功時執行，|| 只在失敗時執行，每個管道的輸出依序送出
+  const runCommandList = async (list: CommandList, output: OutputSink): Promise<void> => {
+    for (const { pipeline, operator } of list) {
+      const status = lastStatusRef.current;
+      if ((operator === '&&' && status !== 0) || (operator === '||' && status === 0)) {
+        continue;
+      }
       
-      case 'chmod':
-        if (args.length < 2) {
-          return [{ type: 'error', content: 'chmod: 缺少操作數' }];
-        }
-        
-        const targetPath = args[1];
-        
-        // 獲取目標檔案或目錄
-        const chmodTarget = getFileSystemItem(targetPath);
-        if (!chmodTarget) {
-          return [{ type: 'error', content: `chmod: ${targetPath}: 檔案不存在` }];
-        }
-        
-        // 檢查是否有權限更改
-        if (!isRoot && chmodTarget.owner !== userName) {
-          return [{ type: 'error', content: `chmod: ${targetPath}: 權限不足` }];
-        }
-        
-        // 這裡可以加入更改權限的實際邏輯，但為簡化我們只返回成功訊息
-        return [{ type: 'success', content: `已更改 '${targetPath}' 的權限` }];
+      const pipelineOutput = await runPipeline(pipeline, output);
+      output(pipelineOutput.results);
+      lastStatusRef.current = pipelineOutput.exitCode;
+    }
+  };
+
+  // 命令替換：在目前的 shell 中執行命令並返回其標準輸出（去除結尾換行），錯誤訊息直接顯示
+  const substituteCommand = async (command: string, output: OutputSink): Promise<string> => {
+    const results: CommandResult[] = [];
+    await runCommandLine(command, collected => results.push(...collected));
+    output(results.filter(result => result.type === 'error'));
+    return getOutputText(results).replace(/\n+$/, '');
+  };
+
+  // 參數展開後進行路徑名稱展開，沒有符合的項目時保留原本的模式
+  const expandArguments = async (words: WordToken[], substitute: CommandSubstitution): Promise<string[]> => {
+    const argv: string[] = [];
+    for (const word of words) {
+      for (const field of await expandWordFields(word, lookupVariable, substitute)) {
+        argv.push(...((field.pattern && expandGlob(field.pattern, lookupPath, isVisiblePath)) || [field.value]));
+      }
+    }
+    return argv;
+  };
+
+  // 執行管道：每個階段的文字輸出作為下一個階段的標準輸入，結束狀態取最後一個階段
+  // 只有最後一個沒有重定向的階段可以直接串流輸出，中間階段的錯誤訊息立即顯示
+  const runPipeline = async (pipeline: Pipeline, output: OutputSink): Promise<CommandOutput> => {
+    let stdin: string | null = null;
+    let stageOutput: CommandOutput = succeed();
+    for (const [index, stage] of pipeline.entries()) {
+      // 只有變數賦值時，結束狀態取最後一個命令替換的結束狀態
+      let substitutionStatus = 0;
+      const substitute: CommandSubstitution = async command => {
+        const text = await substituteCommand(command, output);
+        substitutionStatus = lastStatusRef.current;
+        return text;
+      };
       
-      case 'chown':
-        if (args.length < 2) {
-          return [{ type: 'error', content: 'chown: 缺少操作數' }];
-        }
-        
-        const owner = args[0];
-        const chownPath = args[1];
-        
-        // 只有 root 可以更改所有權
-        if (!isRoot) {
-          return [{ type: 'error', content: 'chown: 需要系統管理員權限' }];
+      // 開頭的 NAME=value 為變數賦值，後面接命令時只在該命令執行期間有效
+      const variables = variablesRef.current;
+      const savedVariables = new Map<string, ShellVariable | undefined>();
+      let commandStart = 0;
+      for (const word of stage.words) {
+        const assignment = await parseAssignment(word, lookupVariable, substitute);
+        if (!assignment) {
+          break;
         }
-        
-        // 獲取目標檔案或目錄
-        const chownTarget = getFileSystemItem(chownPath);
-        if (!chownTarget) {
-          return [{ type: 'error', content: `chown: ${chownPath}: 檔案不存在` }];
+        if (!savedVariables.has(assignment.name)) {
+          savedVariables.set(assignment.name, variables.get(assignment.name));
         }
-        
-        // 這裡可以加入更改所有權的實際邏輯，但為簡化我們只返回成功訊息
-        return [{ type: 'success', content: `已更改 '${chownPath}' 的所有者為 '${owner}'` }];
+        const exported = variables.get(assignment.name)?.exported ?? false;
+        variables.set(assignment.name, { value: assignment.value, exported });
+        commandStart++;
+      }
       
-      case 'touch':
-        if (args.length < 1) {
-          return [{ type: 'error', content: 'touch: 缺少檔案操作數' }];
-        }
-        
-        const touchPath = args[0];
-        const touchDir = getCurrentDirectoryContent();
-        
-        if (!touchDir) {
-          return [{ type: 'error', content: `touch: 無法存取 '${currentDirectory}'` }];
-        }
-        
-        // 檢查是否有寫入權限
-        if (!isRoot && !checkPermission(getDirectoryFromPath(currentDirectory) as DirectoryItem, 'write')) {
-          return [{ type: 'error', content: `touch: ${touchPath}: 權限不足` }];
-        }
-        
-        // 這裡可以加入創建檔案的實際邏輯，但為簡化我們只返回成功訊息
-        return [{ type: 'success', content: `已創建 '${touchPath}'` }];
+      const hasCommand = commandStart < stage.words.length;
+      if (hasCommand) {
+        // 命令前的暫時賦值會傳入命令的環境
+        savedVariables.forEach((_, name) => {
+          const variable = variables.get(name);
+          if (variable) {
+            variable.exported = true;
+          }
+        });
+      }
       
-      case 'mkdir':
-        if (args.length < 1) {
-          return [{ type: 'error', content: 'mkdir: 缺少目錄操作數' }];
-        }
-        
-        const mkdirPath = args[0];
-        const parentDir = getCurrentDirectoryContent();
-        
-        if (!parentDir) {
-          return [{ type: 'error', content: `mkdir: 無法存取 '${currentDirectory}'` }];
+      const isLast = index === pipeline.length - 1;
+      // 工作被中斷時命令會拋出例外，暫時賦值仍須還原
+      try {
+        const argv = await expandArguments(stage.words.slice(commandStart), substitute);
+        const streamed: CommandResult[] = [];
+        const stageSink: OutputSink = isLast && !stage.redirect ? output : results => streamed.push(...results);
+        stageOutput = argv.length > 0 ? await executeCommand(argv, stdin, stageSink) : { results: [], exitCode: substitutionStatus };
+        stageOutput = { ...stageOutput, results: [...streamed, ...stageOutput.results] };
+        
+        if (stage.redirect) {
+          // 處理重定向：> 覆寫檔案，>> 附加到檔案結尾，只保留錯誤訊息
+          const target = (await expandWord(stage.redirect.target, lookupVariable, substitute)).join(' ');
+          const writeError = writeFile(target, getOutputText(stageOutput.results), stage.redirect.append);
+          const errors = stageOutput.results.filter(result => result.type === 'error');
+          stageOutput = writeError ? fail([...errors, writeError]) : { ...stageOutput, results: errors };
         }
-        
-        // 檢查是否有寫入權限
-        if (!isRoot && !checkPermission(getDirectoryFromPath(currentDirectory) as DirectoryItem, 'write')) {
-          return [{ type: 'error', content: `mkdir: 無法建立目錄 '${mkdirPath}': 權限不足` }];
+      } finally {
+        if (hasCommand) {
+          savedVariables.forEach((saved, name) => {
+            if (saved) {
+              variables.set(name, saved);
+            } else {
+              variables.delete(name);
+            }
+          });
         }
-        
-        // 這裡可以加入創建目錄的實際邏輯，但為簡化我們只返回成功訊息
-        return [{ type: 'success', content: `已創建目錄 '${mkdirPath}'` }];
+      }
       
-      case 'lang':
+      if (!isLast) {
+        // 中間階段的錯誤訊息直接顯示，其餘輸出傳給下一個階段
+        output(stageOutput.results.filter(result => result.type === 'error'));
+        stdin = getOutputText(stageOutput.results);
+      }
+    }
+
+    return stageOutput;
+  };
+
+  // 執行單一命令，argv 為分析後的參數陣列，stdin 為管道傳入的標準輸入（沒有管道時為 null）
+  // 長時間執行的命令可以透過 output 逐步送出輸出，返回的結果會接在後面
+  const executeCommand = async (argv: string[], stdin: string | null, output: OutputSink): Promise<CommandOutput> => {
+    const [command = '', ...args] = argv;
+    
+    // 檢查是否是 rm -rf 命令
+    if (command === 'rm' && (args[0] === '-rf' || args[0] === '-fr')) {
+      await rickRoll(output);
+      return succeed();
+    }
+    
+    // 含有 / 的命令視為腳本路徑（如 ./tour.sh），其餘從命令註冊表中尋找
+    const definition = command.includes('/') ? undefined : findCommand(getCommands(), command);
+    
+    // 非完整功能模式下只能使用基本命令
+    if (!isFullFeatured && command !== '' && !(definition && isCommandAvailable(definition, isFullFeatured))) {
+      return fail([
+        { type: 'error', content: language === 'zh_TW' ? `未知的命令: ${command}` : `Unknown command: ${command}` },
+        { type: 'info', content: language === 'zh_TW' ? '提示: 輸入 "deviser start" 以啟動 deviser 服務' : 'Tip: Type "deviser start" to start deviser service' },
+        { type: 'info', content: language === 'zh_TW' ? '輸入 "help" 查看基本命令列表' : 'Type "help" to see basic command list' }
+      ], 127);
+    }
+    
+    if (command.includes('/')) {
+      return runScriptFile(command, 'exec', command, output);
+    }
+    
+    if (!definition) {
+      // 檢查是否輸入了帶有參數的命令 (如果輸入了未知命令)
+      if (argv.join(' ').includes('-')) {
+        return fail([{ type: 'error', content: `${command}: ${getText('err_invalid_option')} -- '${args.join(' ')}'` }], 127);
+      }
+      return fail([{ type: 'error', content: `${command}: ${getText('err_cmd_not_found')}` }], 127);
+    }
+    
+    // 有手冊頁的命令以 --help 顯示手冊頁
+    if (definition.manual && args.includes('--help')) {
+      return succeed(renderManual(definition, language));
+    }
+    
+    const job = getForegroundJob();
+    return definition.handler({
+      name: command,
+      args,
+      stdin,
+      output,
+      language,
+      shell: {
+        cwd: cwdRef.current,
+        user: getCurrentUser(),
+        isRoot: isRootRef.current,
+        groups,
+        isFullFeatured,
+        getVariable: lookupVariable,
+        variables: variablesRef.current,
+        aliases: aliasesRef.current,
+        history: commandHistoryRef.current,
+        setHistory: updateCommandHistory,
+        previousDirectory: previousDirectoryRef.current,
+        changeDirectory,
+        editingMode,
+        setEditingMode: mode => {
+          setEditingMode(mode);
+          setIsViCommandMode(false);
+        },
+        commands: getCommands(),
+        getTerminalColumns,
+        fs: {
+          resolve,
+          getItem: getItemAt,
+          isRestricted,
+          checkPermission,
+          getContent: getLocalizedContent,
+          getOwnership
+        },
+        readFile: getFileContent,
+        openFile,
+        readDirectory,
+        sleep: job.sleep,
+        readSecret: prompt => readSecret(prompt, job.signal),
+        signal: job.signal,
+        execute: executeCommand,
+        runScriptFile,
+        runScriptSource,
+        runAsRoot: async (cmd, rootOutput) => {
+          await runAsRoot(cmd, rootOutput);
+          return lastStatusRef.current;
+        },
+        checkPassword: password => password === passwordRef.current,
+        setPassword: password => {
+          passwordRef.current = password;
+        },
+        rickRoll
+      }
+    });
+  };
+  
+  // 終端機內建的命令與 src/commands 中註冊的命令
+  const getCommands = (): CommandDefinition[] => mergeCommands(builtinCommands, getRegisteredCommands());
+  
+  // 改變終端機本身狀態的命令（主題、語言、服務模式、畫面與工作階段）；其餘命令位於 src/commands，透過 ShellApi 操作 shell
+  const builtinCommands: CommandDefinition[] = [
+    {
+      name: 'theme',
+      usage: 'theme',
+      summary: { zh_TW: '切換亮色/暗色主題', en_US: 'Toggle light/dark theme' },
+      mode: 'full',
+      handler: () => {
+        toggleTheme();
+        return succeed([{ type: 'system', content: getText('sys_theme_changed') }]);
+      }
+    },
+    {
+      name: 'lang',
+      usage: 'lang [zh|en]',
+      summary: { zh_TW: '切換語言 (中文/英文)', en_US: 'Change language (Chinese/English)' },
+      mode: 'basic',
+      completion: ['zh', 'en'],
+      handler: ({ args }) => {
         if (args.length === 0) {
-          return [
+          return succeed([
             { type: 'info', content: language === 'zh_TW' ? '目前語言：繁體中文' : 'Current language: English' },
             { type: 'info', content: language === 'zh_TW' ? '用法: lang [zh|en]' : 'Usage: lang [zh|en]' }
-          ];
+          ]);
         }
         
         switch (args[0].toLowerCase()) {
           case 'en':
             setLanguage('en_US');
-            // 清除所有歷史輸出，確保介面立即反映語言變更
-            setTimeout(() => {
-              setOutputHistory([{
-                command: '',
-                result: [
-                  { type: 'system', content: 'Language changed to English' },
-                  { type: 'info', content: 'Type "help" to see available commands.' }
-                ]
-              }]);
-            }, 0);
-            return [{ type: 'system', content: 'Language changed to English' }];
+            // 清除所有歷史輸出，確保介面立即反映語言變更；之後的輸出會附加在新的項目中
+            setOutputHistory([{
+              command: '',
+              result: [
+                { type: 'system', content: 'Language changed to English' },
+                { type: 'info', content: 'Type "help" to see available commands.' }
+              ]
+            }]);
+            return succeed();
             
           case 'zh':
             setLanguage('zh_TW');
-            // 清除所有歷史輸出，確保介面立即反映語言變更
-            setTimeout(() => {
-              setOutputHistory([{
-                command: '',
-                result: [
-                  { type: 'system', content: '語言已切換為中文' },
-                  { type: 'info', content: '輸入 "help" 查看可用命令' }
-                ]
-              }]);
-            }, 0);
-            return [{ type: 'system', content: '語言已切換為中文' }];
+            // 清除所有歷史輸出，確保介面立即反映語言變更；之後的輸出會附加在新的項目中
+            setOutputHistory([{
+              command: '',
+              result: [
+                { type: 'system', content: '語言已切換為中文' },
+                { type: 'info', content: '輸入 "help" 查看可用命令' }
+              ]
+            }]);
+            return succeed();
             
           default:
-            return [
+            return fail([
               { type: 'error', content: language === 'zh_TW' ? `無效的選項 -- '${args[0]}'` : `Invalid option -- '${args[0]}'` },
               { type: 'info', content: language === 'zh_TW' ? '用法: lang [zh|en]' : 'Usage: lang [zh|en]' }
-            ];
+            ]);
         }
-      
-      default:
-        // 檢查是否輸入了帶有參數的命令 (如果輸入了未知命令)
-        if (cmd.includes('-')) {
-          return [{ type: 'error', content: `${command}: ${getText('err_invalid_option')} -- '${args.join(' ')}'` }];
+      }
+    },
+    {
+      name: 'deviser',
+      usage: 'deviser start',
+      summary: { zh_TW: '啟動 deviser 服務', en_US: 'Start deviser service' },
+      mode: 'basic',
+      completion: ['start'],
+      handler: async ({ args, output }) => {
+        if (args[0]?.toLowerCase() !== 'start') {
+          return fail([{ type: 'error', content: language === 'zh_TW' ? '用法: deviser start' : 'Usage: deviser start' }], 2);
+        }
+        
+        // 檢查模式是否已經啟用，避免重複啟動
+        if (isFullFeatured) {
+          return succeed([
+            { type: 'info', content: 'deviser 服務已經啟動！' }
+          ]);
+        }
+
+        // 立即設置為 deviser 服務模式
+        setIsFullFeatured(true);
+        setUserName('deviser');
+        
+        // 設置啟動狀態和重置啟動階段
+        setIsBooting(true);
+        setBootStage(0);
+        
+        // 啟動被 Ctrl+C 中斷時恢復為基本模式
+        const job = getForegroundJob();
+        job.signal.addEventListener('abort', () => {
+          setIsBooting(false);
+          setIsFullFeatured(false);
+          setUserName('user');
+        });
+        
+        // 顯示初始啟動訊息
+        output([{ type: 'system', content: '正在啟動 deviser 服務...' }]);
+        
+        // 使用更有節奏的延遲顯示啟動消息，有明顯的停頓感
+        for (const bootMessage of bootMessages) {
+          await job.sleep(600);
+          output([{ type: 'system', content: bootMessage.msg[language] }]);
+        }
+        
+        // 啟動完成後顯示成功消息並短暫停頓
+        await job.sleep(800);
+        output([{ type: 'success', content: 'deviser 服務已啟動！' }]);
+        
+        // 再等待一下，然後清空終端並設置為非啟動狀態
+        await job.sleep(1000);
+        setOutputHistory([]);
+        setIsBooting(false);
+        
+        // 添加一條簡短的歡迎消息，並重新載入 ~/.bashrc
+        await job.sleep(100);
+        const bashrcResults = await sourceFile('~/.bashrc');
+        setOutputHistory([{
+          command: '',
+          result: [
+            { 
+              type: 'success', 
+              content: language === 'zh_TW' 
+                ? '✓ deviser 服務已成功啟動！輸入 "help" 查看可用命令。' 
+                : '✓ deviser service started successfully! Type "help" to see available commands.'
+            },
+            ...bashrcResults
+          ]
+        }]);
+        
+        return succeed();
+      }
+    },
+    {
+      name: 'clear',
+      usage: 'clear',
+      summary: { zh_TW: '清除畫面', en_US: 'Clear screen' },
+      mode: 'basic',
+      handler: () => {
+        // 清除畫面，輸出歷史的更新排在命令列項目的新增之後
+        setOutputHistory([]);
+        return succeed();
+      }
+    },
+    {
+      name: 'reset',
+      usage: 'reset',
+      summary: { zh_TW: '將檔案系統恢復為出廠內容', en_US: 'Restore the file system to factory contents' },
+      manual: {
+        description: [
+          { zh_TW: '檔案系統的變更、命令歷史與目前目錄會保存在瀏覽器中，重新載入頁面後恢復。', en_US: 'File system changes, command history and the current directory are saved in the browser and restored after a reload.' },
+          { zh_TW: 'reset 捨棄所有檔案變更與命令歷史並回到主目錄，語言、主題與模式保持不變。', en_US: 'reset discards all file changes and the command history and returns to the home directory; language, theme and mode are kept.' }
+        ]
+      },
+      mode: 'full',
+      handler: () => {
+        // 檔案系統是同一個物件，以出廠內容取代其內容
+        for (const name of Object.keys(fileSystem)) {
+          delete fileSystem[name];
         }
-        return [{ type: 'error', content: `${command}: ${getText('err_cmd_not_found')}` }];
+        Object.assign(fileSystem, cloneFileSystem(factoryFileSystem));
+        updateCommandHistory([]);
+        changeDirectory('~');
+        previousDirectoryRef.current = null;
+        return succeed([{ type: 'system', content: language === 'zh_TW' ? '檔案系統已恢復為出廠內容' : 'File system restored to factory contents' }]);
+      }
+    },
+    {
+      name: 'exit',
+      aliases: ['logout'],
+      usage: 'exit',
+      summary: { zh_TW: '離開終端機', en_US: 'Exit terminal' },
+      mode: 'basic',
+      handler: () => {
+        return succeed([
+          { type: 'system', content: getText('sys_logout') },
+          { type: 'system', content: getText('sys_goodbye') }
+        ]);
+      }
     }
-  };
+  ];
   
   // 構建提示符
   const getPrompt = () => {
-    const user = isRoot ? 'root' : userName;
+    const user = getCurrentUser();
     // 修改提示符以反映當前語言和root狀態
     if (language === 'en_US') {
       return `${user}@${hostName}:${currentDirectory}$`;
@@ -2140,6 +1839,22 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
     }
   };
   
+  // 增量搜尋的提示符，如 (reverse-i-search)`cat':
+  const getSearchPrompt = ({ query, direction, failed }: HistorySearch) => {
+    return `(${failed ? 'failed ' : ''}${direction === 'reverse' ? 'reverse-' : ''}i-search)\`${query}':`;
+  };
+  
+  // 一般輸入；讀取不顯示的輸入時不記錄復原，避免密碼留在復原記錄中
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = { text: e.target.value, cursor: e.target.selectionStart ?? e.target.value.length };
+    if (secretPrompt !== null) {
+      setInput(next.text);
+      setCursorPosition(next.cursor);
+      return;
+    }
+    applyEdit(next, 'insert');
+  };
+  
   // 點擊終端任意位置時，聚焦輸入框
   const handleTerminalClick = () => {
     if (inputRef.current) {
@@ -2170,186 +1885,94 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
     return 0;
   };
 
-  const rickRoll = (): CommandResult[] => {
-    // 模擬進度輸出的函數
-    const addProgressMessage = (percent: number, currentPath: string) => {
-      setOutputHistory(prev => {
-        const lastOutput = [...prev];
-        const lastIndex = lastOutput.length - 1;
-        
-        if (lastOutput[lastIndex]) {
-          lastOutput[lastIndex].result = [
-            ...lastOutput[lastIndex].result,
-            { type: 'system', content: `已處理 ${percent}%: ${currentPath}` }
-          ];
-        }
-        
-        return lastOutput;
-      });
-    };
+  const rickRoll = async (output: OutputSink): Promise<void> => {
+    const job = getForegroundJob();
+    // 工作被取消時關閉 Rick Roll 畫面
+    job.signal.addEventListener('abort', () => setIsRickRolling(false));
     
-    // 先返回第一條訊息
-    setTimeout(() => {
-      // 模擬進度條報告
-      const paths = [
-        '/home/deviser/Documents',
-        '/home/deviser/Pictures',
-        '/home/deviser/Downloads',
-        '/home/deviser/.config',
-        '/home/deviser/.local/share',
-        '/var/log',
-        '/etc/apt'
-      ];
-      
-      let i = 0;
-      const progressInterval = setInterval(() => {
-        if (i < paths.length) {
-          const percent = Math.floor((i / paths.length) * 100);
-          addProgressMessage(percent, paths[i]);
-          i++;
-        } else {
-          clearInterval(progressInterval);
-          
-          // 顯示權限錯誤信息
-          setTimeout(() => {
-            setOutputHistory(prev => {
-              const lastOutput = [...prev];
-              const lastIndex = lastOutput.length - 1;
-              
-              if (lastOutput[lastIndex]) {
-                lastOutput[lastIndex].result = [
-                  ...lastOutput[lastIndex].result,
-                  { type: 'error', content: `rm: 無法刪除 '/var/lib/dpkg': 權限不足` },
-                  { type: 'error', content: `rm: 無法移除 '/etc/passwd': 操作不允許` },
-                  { type: 'error', content: `rm: 無法刪除 '/boot': 設備或資源忙碌中` }
-                ];
-              }
-              
-              return lastOutput;
-            });
-            
-            // 延遲顯示第二條訊息
-            setTimeout(() => {
-              setOutputHistory(prev => {
-                const lastOutput = [...prev];
-                const lastIndex = lastOutput.length - 1;
-                
-                if (lastOutput[lastIndex]) {
-                  // 添加檔案刪除數量訊息，並包含一些細節
-                  lastOutput[lastIndex].result = [
-                    ...lastOutput[lastIndex].result,
-                    { type: 'system', content: `已刪除 784 個檔案 (佔用 1.2GB)` }
-                  ];
-                }
-                
-                return lastOutput;
-              });
-              
-              // 延遲顯示第三條訊息
-              setTimeout(() => {
-                setOutputHistory(prev => {
-                  const lastOutput = [...prev];
-                  const lastIndex = lastOutput.length - 1;
-                  
-                  if (lastOutput[lastIndex]) {
-                    // 添加目錄刪除數量訊息
-                    lastOutput[lastIndex].result = [
-                      ...lastOutput[lastIndex].result,
-                      { type: 'system', content: `已刪除 46 個目錄` }
-                    ];
-                  }
-                  
-                  return lastOutput;
-                });
-                
-                // 延遲顯示完成訊息和總結
-                setTimeout(() => {
-                  setOutputHistory(prev => {
-                    const lastOutput = [...prev];
-                    const lastIndex = lastOutput.length - 1;
-                    
-                    if (lastOutput[lastIndex]) {
-                      // 添加操作完成訊息，包含一些計時資訊
-                      lastOutput[lastIndex].result = [
-                        ...lastOutput[lastIndex].result,
-                        { type: 'success', content: `操作已完成，用時 5.72 秒` },
-                        { type: 'system', content: `已跳過 3 個無法訪問的檔案` }
-                      ];
-                    }
-                    
-                    return lastOutput;
-                  });
-                  
-                  // 等待較長時間，讓使用者確信真的刪除了，然後才顯示警告
-                  setTimeout(() => {
-                    // 短暫延遲後顯示Rick Roll警告
-                    setOutputHistory(prev => {
-                      const lastOutput = [...prev];
-                      const lastIndex = lastOutput.length - 1;
-                      
-                      // 添加警告訊息，模擬系統日誌風格
-                      if (lastOutput[lastIndex]) {
-                        const now = new Date();
-                        const timeStr = now.toISOString().replace('T', ' ').substr(0, 19);
-                        
-                        lastOutput[lastIndex].result = [
-                          ...lastOutput[lastIndex].result,
-                          { type: 'system', content: '-------------------------------' },
-                          { type: 'system', content: `[${timeStr}] kernel: [警告] 檢測到潛在的系統破壞嘗試` },
-                          { type: 'error', content: '警告: 系統檢測到危險操作！' },
-                          { type: 'warning', content: 'systemd-guard[1234]: 防護機制已啟動，進程ID 5678' },
-                          { type: 'system', content: `[${timeStr}] kernel: 正在還原系統檔案...` },
-                          { type: 'error', content: 'systemd[1]: 錯誤：已阻止刪除系統關鍵檔案' },
-                          { type: 'system', content: 'bash: 正在載入防護措施...' },
-                          { type: 'warning', content: '安全模組啟動：你已被 Rick Roll 了！' }
-                        ];
-                      }
-                      
-                      return lastOutput;
-                    });
-                    
-                    // 啟動Rick Roll顯示
-                    setTimeout(() => {
-                      setIsRickRolling(true);
-                      
-                      // 15秒後恢復
-                      setTimeout(() => {
-                        setIsRickRolling(false);
-                        
-                        // 恢復後顯示調侃訊息，模擬系統恢復消息
-                        setOutputHistory(prev => [
-                          ...prev, 
-                          { 
-                            command: '', 
-                            result: [
-                              { type: 'system', content: `[防護系統] ${userName}@${hostName}: 快照還原完成。` },
-                              { type: 'info', content: '所有檔案已從時間點 ' + new Date().toLocaleString() + ' 還原。' },
-                              { type: 'warning', content: '下次請小心使用危險命令！系統管理員已被通知。' },
-                              { type: 'success', content: '防護模組：哈哈，你的檔案沒有真的被刪除。感謝使用 DeviOS 安全防護！' }
-                            ] 
-                          }
-                        ]);
-                      }, 12000);
-                    }, 2000);
-                  }, 4000);
-                }, 1500);
-              }, 1500);
-            }, 1500);
-          }, 1000);
-        }
-      }, 400); // 每400毫秒更新一次進度
-    }, 1000);
-    
-    // 立即返回第一條訊息，包含一些Linux風格的提示
-    return [
-      { type: 'system', content: `[${userName}@${hostName} ${currentDirectory}]# rm -rf /*` }, // 顯示執行的完整命令
+    // 先顯示第一條訊息，包含一些Linux風格的提示
+    output([
+      { type: 'system', content: `[${userName}@${hostName} ${cwdRef.current}]# rm -rf /*` }, // 顯示執行的完整命令
       { type: 'success', content: `正在刪除檔案...請稍候` }
+    ]);
+    await job.sleep(1000);
+    
+    // 模擬進度條報告，每400毫秒更新一次進度
+    const paths = [
+      '/home/deviser/Documents',
+      '/home/deviser/Pictures',
+      '/home/deviser/Downloads',
+      '/home/deviser/.config',
+      '/home/deviser/.local/share',
+      '/var/log',
+      '/etc/apt'
     ];
+    
+    for (const [i, path] of paths.entries()) {
+      await job.sleep(400);
+      const percent = Math.floor((i / paths.length) * 100);
+      output([{ type: 'system', content: `已處理 ${percent}%: ${path}` }]);
+    }
+    await job.sleep(1400);
+    
+    // 顯示權限錯誤信息
+    output([
+      { type: 'error', content: `rm: 無法刪除 '/var/lib/dpkg': 權限不足` },
+      { type: 'error', content: `rm: 無法移除 '/etc/passwd': 操作不允許` },
+      { type: 'error', content: `rm: 無法刪除 '/boot': 設備或資源忙碌中` }
+    ]);
+    
+    // 延遲顯示檔案與目錄的刪除數量
+    await job.sleep(1500);
+    output([{ type: 'system', content: `已刪除 784 個檔案 (佔用 1.2GB)` }]);
+    await job.sleep(1500);
+    output([{ type: 'system', content: `已刪除 46 個目錄` }]);
+    
+    // 延遲顯示完成訊息和總結
+    await job.sleep(1500);
+    output([
+      { type: 'success', content: `操作已完成，用時 5.72 秒` },
+      { type: 'system', content: `已跳過 3 個無法訪問的檔案` }
+    ]);
+    
+    // 等待較長時間，讓使用者確信真的刪除了，然後才顯示警告（模擬系統日誌風格）
+    await job.sleep(4000);
+    const timeStr = new Date().toISOString().replace('T', ' ').substr(0, 19);
+    output([
+      { type: 'system', content: '-------------------------------' },
+      { type: 'system', content: `[${timeStr}] kernel: [警告] 檢測到潛在的系統破壞嘗試` },
+      { type: 'error', content: '警告: 系統檢測到危險操作！' },
+      { type: 'warning', content: 'systemd-guard[1234]: 防護機制已啟動，進程ID 5678' },
+      { type: 'system', content: `[${timeStr}] kernel: 正在還原系統檔案...` },
+      { type: 'error', content: 'systemd[1]: 錯誤：已阻止刪除系統關鍵檔案' },
+      { type: 'system', content: 'bash: 正在載入防護措施...' },
+      { type: 'warning', content: '安全模組啟動：你已被 Rick Roll 了！' }
+    ]);
+    
+    // 啟動Rick Roll顯示，12秒後恢復
+    await job.sleep(2000);
+    setIsRickRolling(true);
+    await job.sleep(12000);
+    setIsRickRolling(false);
+    
+    // 恢復後顯示調侃訊息，模擬系統恢復消息
+    setOutputHistory(prev => [
+      ...prev, 
+      { 
+        command: '', 
+        result: [
+          { type: 'system', content: `[防護系統] ${userName}@${hostName}: 快照還原完成。` },
+          { type: 'info', content: '所有檔案已從時間點 ' + new Date().toLocaleString() + ' 還原。' },
+          { type: 'warning', content: '下次請小心使用危險命令！系統管理員已被通知。' },
+          { type: 'success', content: '防護模組：哈哈，你的檔案沒有真的被刪除。感謝使用 DeviOS 安全防護！' }
+        ] 
+      }
+    ]);
   };
 
   // 檢查用戶是否對目標有權限
   const checkPermission = (item: FileSystemItem, type: 'read' | 'write' | 'execute'): boolean => {
-    if (isRoot) return true; // 管理員擁有所有權限
+    if (isRootRef.current) return true; // 管理員擁有所有權限
     
     const isOwner = item.owner === userName;
     const isInGroup = groups.includes(item.group);
@@ -2367,61 +1990,58 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
   };
 
   // 從路徑獲取檔案系統項目
-  const getFileSystemItem = (filePath: string): FileSystemItem | null => {
-    const isAbsolutePath = filePath.startsWith('/');
-    const normalizedPath = isAbsolutePath 
-      ? filePath.substring(1)
-      : (currentDirectory === '~' 
-        ? filePath 
-        : `${currentDirectory.substring(2)}/${filePath}`);
-    
-    const parts = normalizedPath.split('/').filter(p => p);
-    
-    let current: any = fileSystem;
-    if (normalizedPath.startsWith('~')) {
-      current = fileSystem['~'];
-      parts.shift(); // 移除 ~ 
+  const getFileSystemItem = (filePath: string): FileSystemItem | null => getItemAt(resolve(filePath));
+
+  // 將文字寫入檔案（覆寫或附加），檔案不存在時建立新檔案，失敗時返回錯誤訊息
+  const writeFile = (filePath: string, text: string, append: boolean): CommandResult | null => {
+    const parts = resolve(filePath);
+    if (!parts) {
+      return { type: 'error', content: `bash: ${filePath}: ${getText('err_no_such_file')}` };
     }
+    const fileName = parts[parts.length - 1];
     
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      if (i === parts.length - 1) {
-        return current.content[part] || null;
-      }
-      
-      if (current.content[part] && current.content[part].type === 'directory') {
-        current = current.content[part];
-      } else {
-        return null;
-      }
+    // 與讀取相同，非完整功能模式下隱藏目錄中的路徑視為不存在
+    const parentDir = isRestricted(parts) ? null : getItemAt(parts.slice(0, -1));
+    if (parentDir?.type !== 'directory') {
+      return { type: 'error', content: `bash: ${filePath}: ${getText('err_no_such_file')}` };
     }
     
-    return current;
-  };
-
-  // 從路徑獲取目錄
-  const getDirectoryFromPath = (dirPath: string): DirectoryItem | null => {
-    if (dirPath === '~') return fileSystem['~'] as DirectoryItem;
-    
-    const parts = dirPath.split('/').filter(p => p);
-    let current: any = fileSystem;
+    const existing = parts.length > 0 ? getItemAt(parts) : parentDir;
+    if (existing?.type === 'directory') {
+      return { type: 'error', content: `bash: ${filePath}: ${getText('err_is_directory')}` };
+    }
     
-    if (dirPath.startsWith('~')) {
-      current = fileSystem['~'];
-      parts.shift(); // 移除 ~
+    // 覆寫既有檔案需要檔案的寫入權限，建立新檔案需要目錄的寫入權限
+    if (!checkPermission(existing ?? parentDir, 'write')) {
+      return { type: 'error', content: `bash: ${filePath}: ${getText('err_perm_denied')}` };
     }
     
-    for (const part of parts) {
-      if (current.content[part] && current.content[part].type === 'directory') {
-        current = current.content[part];
-      } else {
-        return null;
-      }
+    const lines = splitLines(text);
+    const now = new Date();
+    
+    if (existing) {
+      // 寫入後的內容不再區分語言
+      const previous = getLocalizedContent(existing);
+      existing.content = append ? [...previous, ...lines] : lines;
+      delete existing.contentEn;
+      existing.lastModified = now;
+    } else {
+      addItem(parentDir, fileName, { type: 'file', content: lines, permissions: 'rw-r--r--', ...getOwnership(), lastModified: now });
     }
     
-    return current;
+    return null;
   };
 
+  // 新建立的檔案與目錄屬於目前的使用者
+  const getOwnership = () => ({ owner: getCurrentUser(), group: isRootRef.current ? 'root' : groups[0] });
+
+  // 以路徑取得檔案系統項目，供路徑名稱展開使用（空字串表示目前目錄）
+  const lookupPath = (path: string): FileSystemItem | null => getFileSystemItem(path);
+
+  // 非完整功能模式下，路徑名稱展開不會列出隱藏的資料夾
+  const isVisiblePath = (path: string): boolean => !isRestricted(resolve(path));
+
+
   return (
     <TerminalWrapper onClick={handleTerminalClick}>
       <TerminalOutput ref={outputRef}>
@@ -2501,16 +2121,16 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
         </RickRollContainer>
       )}
       
-      {!isBooting && !isRickRolling && (
+      {!isBooting && !isRickRolling && (!isJobRunning || secretPrompt !== null) && (
         <form onSubmit={handleCommandSubmit}>
           <CommandPrompt>
-            <Prompt>{getPrompt()}</Prompt>
+            <Prompt>{secretPrompt ?? (historySearch ? getSearchPrompt(historySearch) : getPrompt())}</Prompt>
             <InputWrapper>
               <Input
                 ref={inputRef}
-                type="text"
+                type={secretPrompt !== null ? 'password' : 'text'}
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={handleInputChange}
                 onKeyDown={handleKeyDown}
                 autoFocus
                 autoComplete="off"
@@ -2518,7 +2138,7 @@ const Terminal: React.FC<TerminalProps> = ({ toggleTheme }) => {
                 onClick={handleInputClick}
                 onSelect={handleInputSelect}
               />
-              <Cursor position={cursorPosition} />
+              <Cursor position={secretPrompt !== null ? 0 : cursorPosition} shape={editingMode === 'vi' && !isViCommandMode ? 'bar' : 'block'} />
             </InputWrapper>
           </CommandPrompt>
         </form>
@@ -0,0 +1,59 @@
+// 別名展開：在語法分析前將命令位置上的別名替換為其定義的詞法單元
+import { Token, tokenize, WordToken } from './lexer';
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+// 別名名稱不可包含空白、引號、路徑分隔符或 shell 特殊字元
+export const isValidAliasName = (name: string): boolean => /^[^\s'"`$=/\\|;&<>()]+$/.test(name);
+
+// 以 alias 命令可重新讀取的格式輸出別名定義
+export const formatAlias = (name: string, value: string): string => {
+  return `alias ${name}='${value.replace(/'/g, `'\\''`)}'`;
+};
+
+// 只有完全未加引號的單字才會被視為別名
+const isPlainWord = (token: WordToken): boolean => {
+  return token.parts.every(part => part.quote === 'none');
+};
+
+// 展開命令位置（命令列開頭或 |、;、&&、|| 之後）的別名
+// 正在展開的別名不會再次展開，避免 alias ls='ls -F' 造成無窮遞迴；別名值以空白結尾時下一個單字也會檢查
+export const expandAliases = (tokens: Token[], aliases: Map<string, string>, expanding: Set<string> = new Set()): Token[] => {
+  const result: Token[] = [];
+  let commandPosition = true;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'operator') {
+      result.push(token);
+      if (token.value === '>' || token.value === '>>') {
+        // 重定向目標不是命令
+        if (tokens[i + 1]) {
+          result.push(tokens[i + 1]);
+          i++;
+        }
+      } else {
+        commandPosition = true;
+      }
+      continue;
+    }
+
+    const alias = commandPosition && isPlainWord(token) && !expanding.has(token.value)
+      ? aliases.get(token.value)
+      : undefined;
+    if (alias === undefined) {
+      result.push(token);
+      // 命令前的變數賦值之後仍是命令位置
+      commandPosition = commandPosition && ASSIGNMENT_PATTERN.test(token.value);
+      continue;
+    }
+
+    const expanded = expandAliases(tokenize(alias), aliases, new Set([...expanding, token.value]));
+    result.push(...expanded);
+    const last = expanded[expanded.length - 1];
+    commandPosition = /\s$/.test(alias) || (last !== undefined && last.type === 'operator' && last.value !== '>' && last.value !== '>>');
+  }
+
+  return result;
+};
@@ -0,0 +1,107 @@
+// Tab 自動完成：找出游標前的單字與它所屬的命令，並將候選項目套用到輸入行
+
+export interface CompletionTarget {
+  start: number; // 單字在輸入行中的起始位置
+  word: string; // 去除引號與跳脫字元後的單字內容
+  command: string | null; // 單字所屬的命令，單字位於命令名稱的位置時為 null
+}
+
+// 分隔命令的運算子，之後的第一個單字是命令名稱
+const COMMAND_SEPARATORS = ['|', '||', '&&', ';', '&'];
+
+// 這些命令之後的單字仍然是命令名稱
+const COMMAND_PREFIXES = ['sudo'];
+
+// 將游標前的文字切分成單字，引號內的空白與運算子不會分隔單字
+const scanWords = (text: string): { start: number; raw: string }[] => {
+  const words: { start: number; raw: string }[] = [];
+  let current: { start: number; raw: string } | null = null;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (!quote && /\s/.test(char)) {
+      current = null;
+      continue;
+    }
+    // 運算子單獨成為一個單字
+    if (!quote && /[|&;]/.test(char)) {
+      const operator = text.substring(i).match(/^(\|\||&&|[|&;])/)![0];
+      words.push({ start: i, raw: operator });
+      current = null;
+      i += operator.length - 1;
+      continue;
+    }
+    if (!current) {
+      current = { start: i, raw: '' };
+      words.push(current);
+    }
+    current.raw += char;
+    if (char === '\\' && quote !== "'" && i + 1 < text.length) {
+      current.raw += text[++i];
+    } else if (quote === char) {
+      quote = null;
+    } else if (!quote && (char === '"' || char === "'")) {
+      quote = char;
+    }
+  }
+  // 以空白或運算子結尾時游標位於一個新的空單字
+  if (!current) {
+    words.push({ start: text.length, raw: '' });
+  }
+  return words;
+};
+
+const unquote = (raw: string): string => raw.replace(/\\(.)|["']/g, (_, escaped: string | undefined) => escaped ?? '');
+
+// 找出游標前要完成的單字
+export const getCompletionTarget = (line: string, cursor: number): CompletionTarget => {
+  const words = scanWords(line.substring(0, cursor));
+  const last = words[words.length - 1];
+  // 游標所在命令的單字，不含變數指派與 sudo 等前綴
+  const segmentStart = words.map(word => COMMAND_SEPARATORS.includes(word.raw)).lastIndexOf(true) + 1;
+  const segment = words.slice(segmentStart, -1).map(word => unquote(word.raw));
+  let commandIndex = 0;
+  while (commandIndex < segment.length && (/^\w+=/.test(segment[commandIndex]) || COMMAND_PREFIXES.includes(segment[commandIndex]))) {
+    commandIndex++;
+  }
+  return {
+    start: last.start,
+    word: unquote(last.raw),
+    command: commandIndex < segment.length ? segment[commandIndex] : null
+  };
+};
+
+// 多個字串的共同前綴，沒有字串時為空字串
+export const getCommonPrefix = (words: string[]): string => {
+  if (words.length === 0) {
+    return '';
+  }
+  let prefix = words[0];
+  for (const word of words) {
+    while (!word.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+};
+
+// 跳脫候選項目中的空白與特殊字元，使其插入後仍是一個單字
+const escapeWord = (word: string): string => word.replace(/[\s"'\\|&;<>()$`*?[\]]/g, '\\$&');
+
+// 以候選項目完成單字：唯一符合時補上完整的項目並加上空白（目錄加上 /），否則補到共同前綴
+// 沒有可以補上的文字時返回 null
+export const applyCompletion = (
+  line: string,
+  cursor: number,
+  target: CompletionTarget,
+  candidates: string[]
+): { line: string; cursor: number } | null => {
+  const completion = candidates.length === 1
+    ? `${escapeWord(candidates[0])}${candidates[0].endsWith('/') ? '' : ' '}`
+    : escapeWord(getCommonPrefix(candidates));
+  if (candidates.length === 0 || (candidates.length > 1 && getCommonPrefix(candidates).length <= target.word.length)) {
+    return null;
+  }
+  const before = line.substring(0, target.start) + completion;
+  return { line: before + line.substring(cursor), cursor: before.length };
+};
@@ -0,0 +1,204 @@
+// 參數展開：$NAME、${NAME}、${NAME:-預設值}、${#NAME}、特殊參數 $? 與命令替換 $(...)、`...`
+import { escapeGlob } from './glob';
+import { findSubstitutionEnd, ShellSyntaxError, WordPart, WordToken } from './lexer';
+
+// 查詢變數值，未定義時返回 undefined
+export type VariableLookup = (name: string) => string | undefined;
+
+// 執行命令替換中的命令，返回去除結尾換行的標準輸出
+export type CommandSubstitution = (command: string) => Promise<string>;
+
+// 展開後的文字片段，expanded 標記是否來自參數展開（未加引號時需要分割欄位）
+interface Segment {
+  text: string;
+  expanded: boolean;
+}
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const ASSIGNMENT_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+const SPECIAL_PARAMETERS = ['?', '$'];
+
+export const isValidName = (name: string): boolean => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+
+// 展開 ${...} 的內容
+const expandBraced = async (expression: string, lookup: VariableLookup, substitute: CommandSubstitution): Promise<string> => {
+  if (expression.startsWith('#') && isValidName(expression.substring(1))) {
+    return String((lookup(expression.substring(1)) ?? '').length);
+  }
+
+  if (SPECIAL_PARAMETERS.includes(expression)) {
+    return lookup(expression) ?? '';
+  }
+
+  const name = NAME_PATTERN.exec(expression)?.[0];
+  if (!name) {
+    throw new ShellSyntaxError('substitution', `\${${expression}}`);
+  }
+
+  const value = lookup(name);
+  const operation = /^(:?)([-+])(.*)$/.exec(expression.substring(name.length));
+  if (!operation) {
+    if (name.length !== expression.length) {
+      throw new ShellSyntaxError('substitution', `\${${expression}}`);
+    }
+    return value ?? '';
+  }
+
+  // 帶冒號時空字串視為未設定
+  const [, colon, operator, word] = operation;
+  const isSet = value !== undefined && (!colon || value !== '');
+  if (operator === '-') {
+    return isSet ? value : expandText(word, lookup, substitute);
+  }
+  return isSet ? expandText(word, lookup, substitute) : '';
+};
+
+const scanParameters = async (text: string, lookup: VariableLookup, substitute: CommandSubstitution): Promise<Segment[]> => {
+  const segments: Segment[] = [];
+  let literal = '';
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] !== '$' && text[i] !== '`') {
+      literal += text[i];
+      i++;
+      continue;
+    }
+
+    const rest = text.substring(i + 1);
+    let value: string;
+    let length: number;
+
+    if (text[i] === '`') {
+      // 反引號內的 \$、\` 與 \\ 依字面解讀
+      const end = findSubstitutionEnd(text, i);
+      value = await substitute(text.substring(i + 1, end).replace(/\\([$`\\])/g, '$1'));
+      length = end - i + 1;
+    } else if (rest.startsWith('(')) {
+      const end = findSubstitutionEnd(text, i);
+      value = await substitute(text.substring(i + 2, end));
+      length = end - i + 1;
+    } else if (rest.startsWith('{')) {
+      const end = rest.indexOf('}');
+      if (end === -1) {
+        throw new ShellSyntaxError('unterminated', '}');
+      }
+      value = await expandBraced(rest.substring(1, end), lookup, substitute);
+      length = end + 2;
+    } else if (SPECIAL_PARAMETERS.includes(rest[0])) {
+      value = lookup(rest[0]) ?? '';
+      length = 2;
+    } else {
+      const name = NAME_PATTERN.exec(rest)?.[0];
+      if (!name) {
+        // 單獨的 $ 依字面保留
+        literal += '$';
+        i++;
+        continue;
+      }
+      value = lookup(name) ?? '';
+      length = name.length + 1;
+    }
+
+    if (literal) {
+      segments.push({ text: literal, expanded: false });
+      literal = '';
+    }
+    segments.push({ text: value, expanded: true });
+    i += length;
+  }
+
+  if (literal) {
+    segments.push({ text: literal, expanded: false });
+  }
+  return segments;
+};
+
+// 展開字串中的參數，不分割欄位（用於雙引號內與變數賦值）
+export const expandText = async (text: string, lookup: VariableLookup, substitute: CommandSubstitution): Promise<string> => {
+  const segments = await scanParameters(text, lookup, substitute);
+  return segments.map(segment => segment.text).join('');
+};
+
+// 展開後的欄位，pattern 為含有未加引號萬用字元時的路徑模式（引號內的字元已跳脫）
+export interface ExpandedField {
+  value: string;
+  pattern: string | null;
+}
+
+// 展開單字，未加引號的展開結果依空白分割為多個欄位，空的展開結果不產生欄位
+export const expandWordFields = async (word: WordToken, lookup: VariableLookup, substitute: CommandSubstitution): Promise<ExpandedField[]> => {
+  const fields: ExpandedField[] = [];
+  let value = '';
+  let pattern = '';
+  let hasGlob = false;
+  let hasField = false;
+
+  const append = (text: string, quoted: boolean) => {
+    value += text;
+    pattern += quoted ? escapeGlob(text) : text;
+    hasGlob = hasGlob || (!quoted && /[*?[]/.test(text));
+  };
+
+  const endField = () => {
+    fields.push({ value, pattern: hasGlob ? pattern : null });
+    value = '';
+    pattern = '';
+    hasGlob = false;
+    hasField = false;
+  };
+
+  for (const part of word.parts) {
+    if (part.quote !== 'none') {
+      append(part.quote === 'single' ? part.text : await expandText(part.text, lookup, substitute), true);
+      hasField = true;
+      continue;
+    }
+
+    for (const segment of await scanParameters(part.text, lookup, substitute)) {
+      if (!segment.expanded) {
+        append(segment.text, false);
+        hasField = true;
+        continue;
+      }
+
+      segment.text.split(/[ \t\n]+/).forEach((piece, index) => {
+        if (index > 0 && hasField) {
+          endField();
+        }
+        append(piece, false);
+        hasField = hasField || piece !== '';
+      });
+    }
+  }
+
+  if (hasField) {
+    endField();
+  }
+  return fields;
+};
+
+export const expandWord = async (word: WordToken, lookup: VariableLookup, substitute: CommandSubstitution): Promise<string[]> => {
+  const fields = await expandWordFields(word, lookup, substitute);
+  return fields.map(field => field.value);
+};
+
+// 解析變數賦值單字（NAME=value），值會展開參數但不分割欄位
+export const parseAssignment = async (
+  word: WordToken,
+  lookup: VariableLookup,
+  substitute: CommandSubstitution
+): Promise<{ name: string, value: string } | null> => {
+  const [first, ...rest] = word.parts;
+  const match = first?.quote === 'none' ? ASSIGNMENT_PATTERN.exec(first.text) : null;
+  if (!match) {
+    return null;
+  }
+
+  const valueParts: WordPart[] = [{ text: first.text.substring(match[0].length), quote: 'none' }, ...rest];
+  let value = '';
+  for (const part of valueParts) {
+    value += part.quote === 'single' ? part.text : await expandText(part.text, lookup, substitute);
+  }
+  return { name: match[1], value };
+};
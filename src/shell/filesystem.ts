@@ -0,0 +1,30 @@
+// 虛擬檔案系統的基本操作，路徑元件由 resolvePath 取得（相對於主目錄）
+import { DirectoryItem, FileSystem, FileSystemItem } from './types';
+
+// 以路徑元件從主目錄開始查找檔案系統項目
+export const findItem = (fileSystem: FileSystem, parts: string[]): FileSystemItem | null => {
+  let current: FileSystemItem = fileSystem['~'];
+  for (const part of parts) {
+    if (current.type !== 'directory' || !Object.prototype.hasOwnProperty.call(current.content, part)) {
+      return null;
+    }
+    current = current.content[part];
+  }
+  return current;
+};
+
+// 在目錄中加入或移除項目，並更新目錄的修改時間
+export const addItem = (directory: DirectoryItem, name: string, item: FileSystemItem) => {
+  directory.content[name] = item;
+  directory.lastModified = new Date();
+};
+
+export const removeItem = (directory: DirectoryItem, name: string) => {
+  delete directory.content[name];
+  directory.lastModified = new Date();
+};
+
+// 判斷 parts 是否位於 ancestor 之中（或就是 ancestor）
+export const isWithin = (parts: string[], ancestor: string[]): boolean => {
+  return ancestor.length <= parts.length && ancestor.every((part, index) => parts[index] === part);
+};
@@ -0,0 +1,104 @@
+// find 的表達式：起始路徑之後接著以 AND 串連的測試與動作
+// 支援 -name、-iname、-type、-maxdepth、-mindepth、-print 與 -exec（以 ; 或 + 結束）
+
+export type FindTest =
+  | { kind: 'name'; pattern: string; ignoreCase: boolean }
+  | { kind: 'type'; type: 'f' | 'd' }
+  | { kind: 'print' }
+  // batch 為 true（以 + 結束）時所有路徑一起傳給同一個命令
+  | { kind: 'exec'; command: string[]; batch: boolean };
+
+export interface FindQuery {
+  paths: string[];
+  tests: FindTest[];
+  maxDepth: number;
+  minDepth: number;
+}
+
+export type FindErrorKind = 'unknown' | 'missing' | 'invalid';
+
+const FIND_ERROR_MESSAGES: Record<FindErrorKind, (predicate: string, argument: string) => string> = {
+  unknown: predicate => `unknown predicate '${predicate}'`,
+  missing: predicate => `missing argument to '${predicate}'`,
+  invalid: (predicate, argument) => `invalid argument '${argument}' to '${predicate}'`
+};
+
+// 表達式錯誤，predicate 為出錯的測試，argument 為無效的參數
+export class FindExpressionError extends Error {
+  readonly kind: FindErrorKind;
+  readonly predicate: string;
+  readonly argument: string;
+
+  constructor(kind: FindErrorKind, predicate: string, argument = '') {
+    super(FIND_ERROR_MESSAGES[kind](predicate, argument));
+    this.name = 'FindExpressionError';
+    this.kind = kind;
+    this.predicate = predicate;
+    this.argument = argument;
+  }
+}
+
+const isExpressionStart = (arg: string): boolean => arg.startsWith('-') && arg.length > 1;
+
+// 分析 find 的參數，沒有指定起始路徑時使用目前目錄
+export const parseFindQuery = (args: string[]): FindQuery => {
+  const expressionIndex = args.findIndex(isExpressionStart);
+  const paths = expressionIndex === -1 ? args : args.slice(0, expressionIndex);
+  const expression = expressionIndex === -1 ? [] : args.slice(expressionIndex);
+  const query: FindQuery = { paths: paths.length > 0 ? paths : ['.'], tests: [], maxDepth: Infinity, minDepth: 0 };
+
+  for (let i = 0; i < expression.length; i++) {
+    const predicate = expression[i];
+    const takeArgument = (): string => {
+      if (i + 1 >= expression.length) {
+        throw new FindExpressionError('missing', predicate);
+      }
+      return expression[++i];
+    };
+
+    switch (predicate) {
+      case '-name':
+      case '-iname':
+        query.tests.push({ kind: 'name', pattern: takeArgument(), ignoreCase: predicate === '-iname' });
+        break;
+      case '-type': {
+        const type = takeArgument();
+        if (type !== 'f' && type !== 'd') {
+          throw new FindExpressionError('invalid', predicate, type);
+        }
+        query.tests.push({ kind: 'type', type });
+        break;
+      }
+      case '-maxdepth':
+      case '-mindepth': {
+        const value = takeArgument();
+        if (!/^\d+$/.test(value)) {
+          throw new FindExpressionError('invalid', predicate, value);
+        }
+        query[predicate === '-maxdepth' ? 'maxDepth' : 'minDepth'] = Number(value);
+        break;
+      }
+      case '-print':
+        query.tests.push({ kind: 'print' });
+        break;
+      case '-exec': {
+        // 命令到 ; 為止；+ 只有緊接在 {} 之後才是結束符號
+        const end = expression.findIndex((arg, index) => index > i && (arg === ';' || (arg === '+' && expression[index - 1] === '{}')));
+        if (end === -1 || end === i + 1) {
+          throw new FindExpressionError('missing', predicate);
+        }
+        query.tests.push({ kind: 'exec', command: expression.slice(i + 1, end), batch: expression[end] === '+' });
+        i = end;
+        break;
+      }
+      default:
+        throw new FindExpressionError('unknown', predicate);
+    }
+  }
+  return query;
+};
+
+// 表達式沒有任何動作時，符合所有測試的路徑會被列出
+export const hasAction = (query: FindQuery): boolean => {
+  return query.tests.some(test => test.kind === 'print' || test.kind === 'exec');
+};
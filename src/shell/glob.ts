@@ -0,0 +1,117 @@
+// 路徑名稱展開：以 *、? 與 [...] 比對虛擬檔案系統中的項目
+import { FileSystemItem } from './types';
+
+// 以路徑取得檔案系統項目，空字串表示目前目錄
+export type PathLookup = (path: string) => FileSystemItem | null;
+
+const GLOB_CHARS = /[*?[]/;
+
+// 將字元跳脫，使其在比對時依字面解讀
+export const escapeGlob = (text: string): string => text.replace(/[*?[\]\\]/g, '\\$&');
+
+const hasGlob = (pattern: string): boolean => {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++;
+    } else if (GLOB_CHARS.test(pattern[i])) {
+      return true;
+    }
+  }
+  return false;
+};
+
+const unescapeGlob = (pattern: string): string => pattern.replace(/\\(.)/g, '$1');
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// 將單一路徑元件的模式轉換為正規表達式
+const toRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[i + 1]);
+      i++;
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      // ] 緊接在開頭時屬於字元集合的一部分
+      const end = pattern.indexOf(']', i + (pattern[i + 1] === '!' || pattern[i + 1] === '^' ? 3 : 2));
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let set = pattern.substring(i + 1, end);
+      const negate = set.startsWith('!') || set.startsWith('^');
+      if (negate) {
+        set = set.substring(1);
+      }
+      source += `[${negate ? '^' : ''}${set.replace(/[\\\]^]/g, '\\$&')}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// 以模式比對單一名稱，如 find -name 的 "*.md"
+export const matchGlob = (pattern: string, name: string, ignoreCase = false): boolean => {
+  const regex = toRegExp(pattern);
+  return (ignoreCase ? new RegExp(regex.source, 'i') : regex).test(name);
+};
+
+const joinPath = (prefix: string, name: string): string => {
+  if (!prefix) {
+    return name;
+  }
+  return prefix.endsWith('/') ? `${prefix}${name}` : `${prefix}/${name}`;
+};
+
+// 展開路徑模式，結果依字母排序；模式不含萬用字元或沒有符合的項目時返回 null
+// 隱藏檔案只有在模式元件以 . 開頭時才會被比對，filter 可再排除特定路徑
+export const expandGlob = (pattern: string, lookup: PathLookup, filter?: (path: string) => boolean): string[] | null => {
+  if (!hasGlob(pattern)) {
+    return null;
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  const components = pattern.split('/').filter(component => component);
+  let paths = [pattern.startsWith('/') ? '/' : ''];
+
+  components.forEach((component, index) => {
+    const isLast = index === components.length - 1;
+    const next: string[] = [];
+
+    for (const prefix of paths) {
+      if (!hasGlob(component)) {
+        next.push(joinPath(prefix, unescapeGlob(component)));
+        continue;
+      }
+
+      const directory = lookup(prefix);
+      if (!directory || directory.type !== 'directory') {
+        continue;
+      }
+
+      const regex = toRegExp(component);
+      const names = Object.keys(directory.content)
+        .filter(name => (component.startsWith('.') || !name.startsWith('.')) && regex.test(name))
+        .filter(name => (!isLast || directoryOnly) ? directory.content[name].type === 'directory' : true)
+        .sort((a, b) => a.localeCompare(b));
+
+      next.push(...names.map(name => joinPath(prefix, name)));
+    }
+
+    paths = next;
+  });
+
+  // 確認字面元件組成的路徑確實存在
+  const matches = paths
+    .filter(path => lookup(path) !== null && (!filter || filter(path)))
+    .map(path => directoryOnly ? `${path}/` : path);
+
+  return matches.length > 0 ? matches : null;
+};
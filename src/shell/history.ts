@@ -0,0 +1,102 @@
+// 命令歷史：歷史展開（!!、!n、!-n、!prefix 與 ^old^new）與增量搜尋
+
+export type HistoryErrorKind = 'event' | 'substitution';
+
+const HISTORY_ERROR_MESSAGES: Record<HistoryErrorKind, (token: string) => string> = {
+  event: token => `${token}: event not found`,
+  substitution: token => `${token}: substitution failed`
+};
+
+// 歷史展開錯誤，token 為找不到的事件（如 !foo）或失敗的替換（如 :s^old^new）
+export class HistoryExpansionError extends Error {
+  readonly kind: HistoryErrorKind;
+  readonly token: string;
+
+  constructor(kind: HistoryErrorKind, token: string) {
+    super(HISTORY_ERROR_MESSAGES[kind](token));
+    this.name = 'HistoryExpansionError';
+    this.kind = kind;
+    this.token = token;
+  }
+}
+
+// ! 之後接著這些字元（或位於行尾）時不是歷史參照，如 ! cmd 與 [ a != b ]
+const LITERAL_BANG_FOLLOWERS = /[\s=(]/;
+
+// 事件標示：!!、!n、!-n 或 !prefix
+const EVENT_PATTERN = /^!(!|-?\d+|[^\s;&|()<>'"]+)/;
+
+// 以事件標示找出歷史中的命令，n 從 1 開始與 history 命令的編號相同
+const findEvent = (designator: string, history: string[]): string | undefined => {
+  if (designator === '!') {
+    return history[history.length - 1];
+  }
+  if (/^-?\d+$/.test(designator)) {
+    const number = Number(designator);
+    return number < 0 ? history[history.length + number] : history[number - 1];
+  }
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].startsWith(designator)) {
+      return history[i];
+    }
+  }
+  return undefined;
+};
+
+// ^old^new^ 將上一個命令中第一個 old 取代為 new
+const expandQuickSubstitution = (line: string, history: string[]): string => {
+  const [, old = '', replacement = '', ...rest] = line.split('^');
+  const previous = history[history.length - 1];
+  if (previous === undefined || old === '' || !previous.includes(old)) {
+    throw new HistoryExpansionError('substitution', `:s^${old}^${replacement}`);
+  }
+  return previous.replace(old, replacement) + rest.join('^');
+};
+
+// 展開命令列中的歷史參照，沒有參照時返回 null；單引號內與跳脫的 ! 不展開
+export const expandHistory = (line: string, history: string[]): string | null => {
+  if (line.startsWith('^')) {
+    return expandQuickSubstitution(line, history);
+  }
+
+  let result = '';
+  let expanded = false;
+  let inSingleQuote = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "'") {
+      inSingleQuote = !inSingleQuote;
+    } else if (char === '\\' && !inSingleQuote && i + 1 < line.length) {
+      result += char + line[++i];
+      continue;
+    } else if (char === '!' && !inSingleQuote && i + 1 < line.length && !LITERAL_BANG_FOLLOWERS.test(line[i + 1])) {
+      const match = EVENT_PATTERN.exec(line.substring(i));
+      if (match) {
+        const event = findEvent(match[1], history);
+        if (event === undefined) {
+          throw new HistoryExpansionError('event', match[0]);
+        }
+        result += event;
+        expanded = true;
+        i += match[0].length - 1;
+        continue;
+      }
+    }
+    result += char;
+  }
+  return expanded ? result : null;
+};
+
+export type SearchDirection = 'reverse' | 'forward';
+
+// 從 start 開始往較舊（reverse）或較新（forward）的方向尋找包含 query 的命令，找不到時返回 -1
+export const searchHistory = (history: string[], query: string, start: number, direction: SearchDirection): number => {
+  const step = direction === 'reverse' ? -1 : 1;
+  // 往較舊的方向時 start 可以位於歷史之後（目前的新輸入行），從最新的命令開始
+  for (let i = direction === 'reverse' ? Math.min(start, history.length - 1) : Math.max(start, 0); i >= 0 && i < history.length; i += step) {
+    if (history[i].includes(query)) {
+      return i;
+    }
+  }
+  return -1;
+};
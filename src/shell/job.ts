@@ -0,0 +1,47 @@
+// 工作控制：長時間執行的命令透過工作的 sleep 等待，取消工作時一併清除計時器
+
+// 工作被取消（如按下 Ctrl+C）時，等待中的 sleep 會以此錯誤拒絕
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface Job {
+  readonly signal: AbortSignal;
+  // 等待指定的毫秒數，工作取消時立即以 JobCancelledError 拒絕
+  sleep: (delay: number) => Promise<void>;
+  cancel: () => void;
+}
+
+export const createJob = (): Job => {
+  const controller = new AbortController();
+  const { signal } = controller;
+
+  const sleep = (delay: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new JobCancelledError());
+        return;
+      }
+
+      // 取消時清除計時器；正常結束時移除監聽器，避免長時間的工作累積監聽器
+      const handleAbort = () => {
+        clearTimeout(timer);
+        reject(new JobCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve();
+      }, delay);
+      signal.addEventListener('abort', handleAbort, { once: true });
+    });
+  };
+
+  return {
+    signal,
+    sleep,
+    cancel: () => controller.abort()
+  };
+};
@@ -0,0 +1,212 @@
+// 命令列詞法分析：處理引號、跳脫字元與空白，將輸入切分為單字與運算子
+
+export type Operator = '|' | '>' | '>>' | ';' | '&&' | '||';
+
+// 單字片段的引號類型，跳脫字元視為單引號（完全依字面解讀）
+export type QuoteType = 'none' | 'single' | 'double';
+
+// 單字由多個片段組成，保留引號資訊供後續展開步驟使用
+export interface WordPart {
+  text: string;
+  quote: QuoteType;
+}
+
+export interface WordToken {
+  type: 'word';
+  value: string; // 去除引號後的文字
+  parts: WordPart[];
+}
+
+export interface OperatorToken {
+  type: 'operator';
+  value: Operator;
+}
+
+export type Token = WordToken | OperatorToken;
+
+export type SyntaxErrorKind = 'unterminated' | 'unexpected' | 'substitution';
+
+const SYNTAX_ERROR_MESSAGES: Record<SyntaxErrorKind, (token: string) => string> = {
+  unterminated: token => `unexpected EOF while looking for matching '${token}'`,
+  unexpected: token => `syntax error near unexpected token '${token}'`,
+  substitution: token => `${token}: bad substitution`
+};
+
+// 語法錯誤，token 為未結束的引號、未預期的符號或無效的參數展開
+export class ShellSyntaxError extends Error {
+  readonly kind: SyntaxErrorKind;
+  readonly token: string;
+
+  constructor(kind: SyntaxErrorKind, token: string) {
+    super(SYNTAX_ERROR_MESSAGES[kind](token));
+    this.name = 'ShellSyntaxError';
+    this.kind = kind;
+    this.token = token;
+  }
+}
+
+// 雙引號內只有這些字元可以被反斜線跳脫
+const DOUBLE_QUOTE_ESCAPABLE = ['$', '`', '"', '\\'];
+
+const isWhitespace = (char: string) => char === ' ' || char === '\t' || char === '\n';
+
+// 找出命令替換的結尾：start 指向 $( 的 $ 或開頭的反引號，返回對應的 ) 或反引號的位置
+// $(...) 可以巢狀，其中引號內的括號不計算
+export const findSubstitutionEnd = (input: string, start: number): number => {
+  if (input[start] === '`') {
+    for (let i = start + 1; i < input.length; i++) {
+      if (input[i] === '\\') {
+        i++;
+      } else if (input[i] === '`') {
+        return i;
+      }
+    }
+    throw new ShellSyntaxError('unterminated', '`');
+  }
+
+  let depth = 0;
+  for (let i = start + 1; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === "'" || char === '"') {
+      const end = input.indexOf(char, i + 1);
+      if (end === -1) {
+        break;
+      }
+      i = end;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  throw new ShellSyntaxError('unterminated', ')');
+};
+
+// separateLines 為 true 時（腳本）換行與 ; 相同會分隔命令，但運算子之後的換行只是空白
+// 引號內的換行屬於單字，因此整個腳本必須一次切分
+export const tokenize = (input: string, separateLines = false): Token[] => {
+  const tokens: Token[] = [];
+  let parts: WordPart[] = [];
+  let inWord = false;
+
+  // 將文字加入目前單字，相同引號類型的片段會合併
+  const append = (text: string, quote: QuoteType) => {
+    inWord = true;
+    const last = parts[parts.length - 1];
+    if (last && last.quote === quote) {
+      last.text += text;
+    } else {
+      parts.push({ text, quote });
+    }
+  };
+
+  const endWord = () => {
+    if (inWord) {
+      tokens.push({ type: 'word', value: parts.map(part => part.text).join(''), parts });
+    }
+    parts = [];
+    inWord = false;
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '\n' && separateLines) {
+      endWord();
+      // 空行與運算子之後的換行不需要分隔符號；重定向之後的換行仍會成為語法錯誤
+      const last = tokens[tokens.length - 1];
+      if (last && (last.type === 'word' || last.value === '>' || last.value === '>>')) {
+        tokens.push({ type: 'operator', value: ';' });
+      }
+      i++;
+    } else if (isWhitespace(char)) {
+      endWord();
+      i++;
+    } else if (char === '#' && !inWord) {
+      // 單字開頭的 # 之後到行尾為註解
+      const end = input.indexOf('\n', i);
+      i = end === -1 ? input.length : end;
+    } else if (char === '|' || char === ';' || input.startsWith('&&', i)) {
+      endWord();
+      const operator = (['&&', '||'] as const).find(op => input.startsWith(op, i)) ?? (char as '|' | ';');
+      tokens.push({ type: 'operator', value: operator });
+      i += operator.length;
+    } else if (char === '>') {
+      endWord();
+      const isAppend = input[i + 1] === '>';
+      tokens.push({ type: 'operator', value: isAppend ? '>>' : '>' });
+      i += isAppend ? 2 : 1;
+    } else if (char === '$' && input[i + 1] === '{') {
+      // ${...} 參數展開中的空白與運算子不分割單字
+      const end = input.indexOf('}', i);
+      if (end === -1) {
+        throw new ShellSyntaxError('unterminated', '}');
+      }
+      append(input.substring(i, end + 1), 'none');
+      i = end + 1;
+    } else if ((char === '$' && input[i + 1] === '(') || char === '`') {
+      // 命令替換整段保留，於展開時執行
+      const end = findSubstitutionEnd(input, i);
+      append(input.substring(i, end + 1), 'none');
+      i = end + 1;
+    } else if (char === '\\') {
+      // 行尾的反斜線依字面保留
+      append(input[i + 1] ?? '\\', 'single');
+      i += 2;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new ShellSyntaxError('unterminated', "'");
+      }
+      append(input.substring(i + 1, end), 'single');
+      i = end + 1;
+    } else if (char === '"') {
+      i++;
+      let text = '';
+      while (input[i] !== '"') {
+        if (i >= input.length) {
+          throw new ShellSyntaxError('unterminated', '"');
+        }
+        if ((input[i] === '$' && input[i + 1] === '(') || input[i] === '`') {
+          const end = findSubstitutionEnd(input, i);
+          text += input.substring(i, end + 1);
+          i = end + 1;
+        } else if (input[i] === '\\' && DOUBLE_QUOTE_ESCAPABLE.includes(input[i + 1])) {
+          // 被跳脫的字元依字面解讀
+          if (text) {
+            append(text, 'double');
+            text = '';
+          }
+          append(input[i + 1], 'single');
+          i += 2;
+        } else {
+          text += input[i];
+          i++;
+        }
+      }
+      // 空的引號仍然構成一個（空字串）單字
+      append(text, 'double');
+      i++;
+    } else {
+      append(char, 'none');
+      i++;
+    }
+  }
+
+  endWord();
+  return tokens;
+};
+
+// 將參數加上必要的引號，使其重新分析後得到相同的單字
+export const quoteWord = (word: string): string => {
+  if (word && /^[\w@%+=:,./~-]+$/.test(word)) {
+    return word;
+  }
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+};
@@ -0,0 +1,10 @@
+// 標準輸入與寫入檔案的文字以換行分隔，shell 與命令共用相同的切分方式
+
+// 將文字切分成行，忽略最後的換行符號
+export const splitLines = (text: string): string[] => {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+};
@@ -0,0 +1,75 @@
+// ls 的輸出格式：檔案大小、修改時間與依終端機寬度排列的多欄格式
+import { FileSystemItem } from './types';
+
+// 目錄的大小與 Linux 相同，固定為一個區塊
+const DIRECTORY_SIZE = 4096;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// 半年內修改的項目顯示時間，較舊的項目顯示年份
+const RECENT_PERIOD = 1000 * 60 * 60 * 24 * 182;
+
+// 文字內容的位元組數，每行以換行符號結尾
+export const getTextSize = (lines: string[]): number => {
+  return new TextEncoder().encode(lines.map(line => `${line}\n`).join('')).length;
+};
+
+// 項目的大小，檔案依顯示的內容計算
+export const getItemSize = (item: FileSystemItem, lines: string[]): number => {
+  return item.type === 'directory' ? DIRECTORY_SIZE : getTextSize(lines);
+};
+
+// 項目佔用的 1K 區塊數，供 ls -l 的 total 使用
+export const getBlockCount = (size: number): number => Math.ceil(size / DIRECTORY_SIZE) * 4;
+
+// 連結數：檔案為 1，目錄為 2 加上子目錄數量
+export const getLinkCount = (item: FileSystemItem): number => {
+  if (item.type === 'file') {
+    return 1;
+  }
+  return 2 + Object.values(item.content).filter(child => child.type === 'directory').length;
+};
+
+// 檔案大小，human 時以 K、M、G 表示並無條件進位（如 4.0K、12K）
+export const formatSize = (size: number, human: boolean): string => {
+  if (!human || size < 1024) {
+    return String(size);
+  }
+  let value = size;
+  let unit = 0;
+  while (value >= 1024 && unit < 3) {
+    value /= 1024;
+    unit++;
+  }
+  const rounded = value < 10 ? (Math.ceil(value * 10) / 10).toFixed(1) : String(Math.ceil(value));
+  return `${rounded}${'KMG'[unit - 1]}`;
+};
+
+// 修改時間，如 "Oct 18 22:47" 或 "Oct 18  2025"
+export const formatTime = (date: Date, now = new Date()): string => {
+  const day = `${MONTHS[date.getMonth()]} ${String(date.getDate()).padStart(2)}`;
+  if (Math.abs(now.getTime() - date.getTime()) < RECENT_PERIOD) {
+    return `${day} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  }
+  return `${day}  ${date.getFullYear()}`;
+};
+
+// 依終端機寬度將項目排成多欄，項目由上而下、由左而右排列，欄與欄之間以兩格分隔
+// 返回每一列的項目索引與每一欄的寬度
+export const layoutColumns = (widths: number[], lineWidth: number): { rows: number[][]; columnWidths: number[] } => {
+  for (let columns = widths.length; columns > 1; columns--) {
+    const rowCount = Math.ceil(widths.length / columns);
+    // 欄數減少後可能不需要那麼多欄，以實際使用的欄數計算
+    const usedColumns = Math.ceil(widths.length / rowCount);
+    const columnWidths = Array.from({ length: usedColumns }, (_, column) => {
+      return Math.max(...widths.slice(column * rowCount, (column + 1) * rowCount)) + 2;
+    });
+    if (columnWidths.reduce((total, width) => total + width, 0) - 2 <= lineWidth) {
+      const rows = Array.from({ length: rowCount }, (_, row) => {
+        return Array.from({ length: usedColumns }, (_, column) => column * rowCount + row).filter(index => index < widths.length);
+      });
+      return { rows, columnWidths };
+    }
+  }
+  return { rows: widths.map((_, index) => [index]), columnWidths: [Math.max(0, ...widths)] };
+};
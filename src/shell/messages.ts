@@ -0,0 +1,293 @@
+// 終端機與命令共用的多語言文字，以鍵查詢，$1、$2 等會以參數取代
+import type { Language } from '../commands/registry';
+
+// 定義多語言文本資源
+interface TextResources {
+  [key: string]: {
+    [key: string]: string;
+  };
+}
+
+const textResources: TextResources = {
+  // 命令幫助文本
+  'help_title': {
+    'zh_TW': '=== 可用命令列表 ===',
+    'en_US': '=== Available Commands ==='
+  },
+  'help_basic_title': {
+    'zh_TW': '=== 基本命令列表 ===',
+    'en_US': '=== Basic Command List ==='
+  },
+  'help_basic_tip': {
+    'zh_TW': '提示: 輸入 "deviser start" 以啟動 deviser 服務以顯示更多內容',
+    'en_US': 'Tip: Type "deviser start" to start deviser service and see more content'
+  },
+  'help_shortcuts': {
+    'zh_TW': '鍵盤快捷鍵:',
+    'en_US': 'Keyboard shortcuts:'
+  },
+  'help_ctrl_c': {
+    'zh_TW': 'Ctrl+C        - 中斷當前命令',
+    'en_US': 'Ctrl+C        - Interrupt current command'
+  },
+  'help_ctrl_l': {
+    'zh_TW': 'Ctrl+L        - 清除畫面',
+    'en_US': 'Ctrl+L        - Clear screen'
+  },
+  'help_ctrl_d': {
+    'zh_TW': 'Ctrl+D        - 登出 (當輸入為空時)',
+    'en_US': 'Ctrl+D        - Logout (when input is empty)'
+  },
+  'help_ctrl_u': {
+    'zh_TW': 'Ctrl+U        - 刪除游標前的文字',
+    'en_US': 'Ctrl+U        - Kill text before the cursor'
+  },
+  'help_kill': {
+    'zh_TW': 'Ctrl+K/W/Y    - 刪除游標後的文字/刪除前一個單字/貼上刪除的文字',
+    'en_US': 'Ctrl+K/W/Y    - Kill to end of line/kill previous word/yank killed text'
+  },
+  'help_undo': {
+    'zh_TW': 'Ctrl+_        - 復原上一次修改',
+    'en_US': 'Ctrl+_        - Undo the last edit'
+  },
+  'help_tab': {
+    'zh_TW': 'Tab           - 自動完成命令與路徑，按兩次列出所有候選項目',
+    'en_US': 'Tab           - Complete commands and paths, press twice to list candidates'
+  },
+  'help_ctrl_r': {
+    'zh_TW': 'Ctrl+R/Ctrl+S - 向前/向後搜尋命令歷史記錄',
+    'en_US': 'Ctrl+R/Ctrl+S - Search command history backward/forward'
+  },
+  'help_arrows': {
+    'zh_TW': '↑/↓           - 瀏覽命令歷史記錄',
+    'en_US': '↑/↓           - Browse command history'
+  },
+  
+  // 錯誤訊息
+  'err_cmd_not_found': {
+    'zh_TW': '命令未找到，輸入 "help" 查看可用命令',
+    'en_US': 'Command not found, type "help" to see available commands'
+  },
+  'err_invalid_option_name': {
+    'zh_TW': 'set: $1: 無效的選項名稱',
+    'en_US': 'set: $1: invalid option name'
+  },
+  'err_invalid_option': {
+    'zh_TW': '無效的選項',
+    'en_US': 'Invalid option'
+  },
+  'err_dir_not_exist': {
+    'zh_TW': '沒有此目錄',
+    'en_US': 'No such directory'
+  },
+  'err_file_not_exist': {
+    'zh_TW': '檔案不存在或不是檔案',
+    'en_US': 'File does not exist or is not a file'
+  },
+  'err_missing_file': {
+    'zh_TW': '缺少檔案名稱',
+    'en_US': 'Missing filename'
+  },
+  'err_internal': {
+    'zh_TW': 'bash: 內部錯誤: $1',
+    'en_US': 'bash: internal error: $1'
+  },
+  'err_syntax_token': {
+    'zh_TW': "bash: 未預期的符號 '$1' 附近有語法錯誤",
+    'en_US': "bash: syntax error near unexpected token '$1'"
+  },
+  'err_unterminated_quote': {
+    'zh_TW': "bash: 尋找相符的 '$1' 時遇到了未預期的檔案結尾",
+    'en_US': "bash: unexpected EOF while looking for matching '$1'"
+  },
+  'err_no_such_file': {
+    'zh_TW': '沒有此檔案或目錄',
+    'en_US': 'No such file or directory'
+  },
+  'err_is_directory': {
+    'zh_TW': '是一個目錄',
+    'en_US': 'Is a directory'
+  },
+  'err_not_directory': {
+    'zh_TW': '不是目錄',
+    'en_US': 'Not a directory'
+  },
+  'err_file_exists': {
+    'zh_TW': '檔案已存在',
+    'en_US': 'File exists'
+  },
+  'err_dir_not_empty': {
+    'zh_TW': '目錄不是空的',
+    'en_US': 'Directory not empty'
+  },
+  'err_omit_directory': {
+    'zh_TW': '未指定 -r，略過目錄',
+    'en_US': '-r not specified; omitting directory'
+  },
+  'err_into_itself': {
+    'zh_TW': "無法移動或複製到自身的子目錄 '$1'",
+    'en_US': "cannot move or copy into a subdirectory of itself, '$1'"
+  },
+  'err_same_file': {
+    'zh_TW': "與 '$1' 是同一個檔案",
+    'en_US': "'$1' is the same file"
+  },
+  'err_event_not_found': {
+    'zh_TW': 'bash: $1: 找不到事件',
+    'en_US': 'bash: $1: event not found'
+  },
+  'err_substitution_failed': {
+    'zh_TW': 'bash: $1: 替換失敗',
+    'en_US': 'bash: $1: substitution failed'
+  },
+  'err_history_position': {
+    'zh_TW': 'history: $1: 歷史位置超出範圍',
+    'en_US': 'history: $1: history position out of range'
+  },
+  'err_numeric_argument': {
+    'zh_TW': '$1: $2: 需要數字參數',
+    'en_US': '$1: $2: numeric argument required'
+  },
+  'err_bad_substitution': {
+    'zh_TW': 'bash: $1: 錯誤的替換',
+    'en_US': 'bash: $1: bad substitution'
+  },
+  'err_invalid_identifier': {
+    'zh_TW': "$1: '$2': 不是有效的識別符",
+    'en_US': "$1: '$2': not a valid identifier"
+  },
+  'err_alias_not_found': {
+    'zh_TW': '$1: $2: 找不到別名',
+    'en_US': '$1: $2: not found'
+  },
+  'err_invalid_alias': {
+    'zh_TW': "alias: '$1': 無效的別名名稱",
+    'en_US': "alias: '$1': invalid alias name"
+  },
+  'err_perm_denied': {
+    'zh_TW': '權限不足',
+    'en_US': 'Permission denied'
+  },
+  'err_not_permitted': {
+    'zh_TW': '不允許的操作',
+    'en_US': 'Operation not permitted'
+  },
+  'err_find_unknown': {
+    'zh_TW': "find: 未知的判斷式 '$1'",
+    'en_US': "find: unknown predicate '$1'"
+  },
+  'err_find_missing': {
+    'zh_TW': "find: '$1' 缺少參數",
+    'en_US': "find: missing argument to '$1'"
+  },
+  'err_find_invalid': {
+    'zh_TW': "find: '$1' 的參數 '$2' 無效",
+    'en_US': "find: invalid argument '$2' to '$1'"
+  },
+  'err_invalid_mode': {
+    'zh_TW': "無效的模式：'$1'",
+    'en_US': "invalid mode: '$1'"
+  },
+  
+  // 系統訊息
+  'sys_welcome': {
+    'zh_TW': '歡迎來到 DeviOS 終端機系統!',
+    'en_US': 'Welcome to DeviOS Terminal System!'
+  },
+  'sys_last_login': {
+    'zh_TW': '上次登入：',
+    'en_US': 'Last login: '
+  },
+  'sys_os_version': {
+    'zh_TW': '系統：DeviOS 1.0.0 LTS',
+    'en_US': 'System: DeviOS 1.0.0 LTS'
+  },
+  'sys_enter_help': {
+    'zh_TW': '輸入 "help" 查看可用命令。',
+    'en_US': 'Type "help" to see available commands.'
+  },
+  'sys_theme_changed': {
+    'zh_TW': '主題已切換',
+    'en_US': 'Theme changed'
+  },
+  'sys_lang_changed': {
+    'zh_TW': '語言已切換為中文',
+    'en_US': 'Language changed to English'
+  },
+  'sys_lang_usage': {
+    'zh_TW': '使用方式: lang [zh|en]\n例如: lang en - 切換至英文\n      lang zh - 切換至中文',
+    'en_US': 'Usage: lang [zh|en]\nExample: lang en - Switch to English\n         lang zh - Switch to Chinese'
+  },
+  'sys_goodbye': {
+    'zh_TW': '感謝使用終端機風格個人網站，再見！',
+    'en_US': 'Thank you for using terminal-style portfolio website. Goodbye!'
+  },
+  'sys_logout': {
+    'zh_TW': 'logout',
+    'en_US': 'logout'
+  },
+  
+  // 目錄和導航
+  'nav_switch_to_dir': {
+    'zh_TW': '切換到 $1 目錄查看更多資訊',
+    'en_US': 'Switch to $1 directory to see more information'
+  },
+  'nav_use_cd': {
+    'zh_TW': '使用 "cd $1" 命令',
+    'en_US': 'Use "cd $1" command'
+  },
+  'nav_use_ls': {
+    'zh_TW': '請使用 "ls" 查看可用檔案，並使用 "cat [檔案名]" 閱讀內容',
+    'en_US': 'Please use "ls" to see available files, and "cat [filename]" to read content'
+  },
+  'nav_example': {
+    'zh_TW': '例如: $1',
+    'en_US': 'Example: $1'
+  },
+  'err_missing_operand': {
+    'zh_TW': '缺少操作數',
+    'en_US': 'missing operand'
+  },
+  'err_extra_operand': {
+    'zh_TW': "多餘的操作數 '$1'",
+    'en_US': "extra operand '$1'"
+  },
+  'err_option_requires_argument': {
+    'zh_TW': "選項需要一個參數 -- '$1'",
+    'en_US': "option requires an argument -- '$1'"
+  },
+  'err_usage': {
+    'zh_TW': '用法: $1',
+    'en_US': 'Usage: $1'
+  },
+  
+  // 文字處理命令
+  'text_invalid_line_count': {
+    'zh_TW': "無效的行數：'$1'",
+    'en_US': "invalid number of lines: '$1'"
+  },
+  'text_invalid_pattern': {
+    'zh_TW': '無效的正規表達式',
+    'en_US': 'Invalid regular expression'
+  },
+  'text_invalid_field_range': {
+    'zh_TW': "無效的欄位範圍：'$1'",
+    'en_US': "invalid field range: '$1'"
+  },
+  'text_missing_field_list': {
+    'zh_TW': '必須指定欄位或字元的清單',
+    'en_US': 'you must specify a list of fields or characters'
+  }
+};
+
+// 獲取對應語言的文本，沒有定義的鍵原樣返回
+export const getMessage = (language: Language, key: string, ...params: string[]): string => {
+  let text = textResources[key]?.[language] || key;
+  
+  // 替換參數
+  params.forEach((param, index) => {
+    text = text.replace(`$${index + 1}`, param);
+  });
+  
+  return text;
+};
@@ -0,0 +1,63 @@
+// 檔案權限模式：解析 chmod 的八進位（如 644）與符號模式（如 u+x,g-w），套用到 rwxr-xr-x 形式的權限字串
+
+// 將模式套用到權限字串，目錄的 X 代表執行權限
+export type ModeChange = (permissions: string, isDirectory: boolean) => string;
+
+const PERMISSION_LETTERS = 'rwxrwxrwx';
+
+// 權限字串與權限位元互相轉換，第一個字元對應最高位元
+const toBits = (permissions: string): number => {
+  return [...permissions].reduce((bits, char) => (bits << 1) | (char === '-' ? 0 : 1), 0);
+};
+
+const toPermissions = (bits: number): string => {
+  return [...PERMISSION_LETTERS].map((letter, index) => (bits & (1 << (8 - index)) ? letter : '-')).join('');
+};
+
+const WHO_MASKS: Record<string, number> = { u: 0o700, g: 0o070, o: 0o007, a: 0o777 };
+
+// 符號模式的一個子句：[ugoa]* 後接一個或多個 [+-=][rwxX]*
+const CLAUSE_PATTERN = /^([ugoa]*)((?:[-+=][rwxX]*)+)$/;
+
+// 解析模式，模式無效時返回 null
+export const parseMode = (mode: string): ModeChange | null => {
+  if (/^[0-7]{1,4}$/.test(mode)) {
+    // 只保留最後三位，權限字串無法表示 setuid、setgid 與 sticky 位元
+    const bits = parseInt(mode, 8) & 0o777;
+    return () => toPermissions(bits);
+  }
+
+  const clauses: { mask: number; operations: string[] }[] = [];
+  for (const clause of mode.split(',')) {
+    const match = CLAUSE_PATTERN.exec(clause);
+    if (!match) {
+      return null;
+    }
+    const mask = match[1] === '' ? WHO_MASKS.a : [...match[1]].reduce((bits, who) => bits | WHO_MASKS[who], 0);
+    clauses.push({ mask, operations: match[2].match(/[-+=][rwxX]*/g) ?? [] });
+  }
+
+  return (permissions, isDirectory) => {
+    let bits = toBits(permissions);
+    for (const { mask, operations } of clauses) {
+      for (const operation of operations) {
+        // 權限字母轉換為三個類別共用的位元，再以 mask 選出要變更的類別
+        const perms = [...operation.substring(1)].reduce((value, letter) => {
+          if (letter === 'r') return value | 4;
+          if (letter === 'w') return value | 2;
+          if (letter === 'x' || (letter === 'X' && (isDirectory || (bits & 0o111) !== 0))) return value | 1;
+          return value;
+        }, 0);
+        const change = (perms * 0o111) & mask;
+        if (operation[0] === '+') {
+          bits |= change;
+        } else if (operation[0] === '-') {
+          bits &= ~change;
+        } else {
+          bits = (bits & ~mask) | change;
+        }
+      }
+    }
+    return toPermissions(bits);
+  };
+};
@@ -0,0 +1,97 @@
+// 語法分析：將詞法單元組合成命令列表、管道與重定向
+import { ShellSyntaxError, Token, WordToken } from './lexer';
+
+export type ListOperator = ';' | '&&' | '||';
+
+export interface Redirection {
+  target: WordToken;
+  append: boolean; // >> 附加，> 覆寫
+}
+
+export interface SimpleCommand {
+  words: WordToken[];
+  redirect: Redirection | null;
+}
+
+// 管道中的每個命令依序執行，前一個命令的輸出作為下一個命令的輸入
+export type Pipeline = SimpleCommand[];
+
+// 命令列表中的管道，operator 為與前一個管道的連接方式（第一個為 null）
+export interface ListItem {
+  pipeline: Pipeline;
+  operator: ListOperator | null;
+}
+
+export type CommandList = ListItem[];
+
+const isListOperator = (token: Token): boolean => {
+  return token.type === 'operator' && (token.value === ';' || token.value === '&&' || token.value === '||');
+};
+
+export const parseCommandList = (tokens: Token[]): CommandList => {
+  const list: CommandList = [];
+  let operator: ListOperator | null = null;
+  let start = 0;
+
+  for (let i = 0; i <= tokens.length; i++) {
+    const token = tokens[i];
+    if (token && !isListOperator(token)) {
+      continue;
+    }
+
+    const pipeline = parsePipeline(tokens.slice(start, i));
+    if (pipeline.length === 0) {
+      // 只有結尾的 ; 可以省略後面的命令
+      if (token) {
+        throw new ShellSyntaxError('unexpected', token.value);
+      }
+      if (operator === '&&' || operator === '||') {
+        throw new ShellSyntaxError('unexpected', 'newline');
+      }
+      break;
+    }
+
+    list.push({ pipeline, operator });
+    operator = token ? token.value as ListOperator : null;
+    start = i + 1;
+  }
+
+  return list;
+};
+
+export const parsePipeline = (tokens: Token[]): Pipeline => {
+  const pipeline: Pipeline = [];
+  let current: SimpleCommand = { words: [], redirect: null };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'word') {
+      current.words.push(token);
+    } else if (token.value === '|') {
+      if (current.words.length === 0 && !current.redirect) {
+        throw new ShellSyntaxError('unexpected', '|');
+      }
+      pipeline.push(current);
+      current = { words: [], redirect: null };
+    } else {
+      const target = tokens[i + 1];
+      if (!target || target.type !== 'word') {
+        throw new ShellSyntaxError('unexpected', target ? target.value : 'newline');
+      }
+      // 多個重定向時以最後一個為準
+      current.redirect = { target, append: token.value === '>>' };
+      i++;
+    }
+  }
+
+  if (current.words.length === 0 && !current.redirect) {
+    if (pipeline.length > 0) {
+      throw new ShellSyntaxError('unexpected', '|');
+    }
+    return pipeline;
+  }
+
+  pipeline.push(current);
+  return pipeline;
+};
@@ -0,0 +1,59 @@
+// 路徑解析：將 .、..、~、~user、絕對與相對路徑正規化為虛擬檔案系統中的位置
+// 虛擬檔案系統以主目錄為根，目錄以 ~ 開頭的形式表示（如 ~/about），對應到 /home/<user>
+
+export interface PathContext {
+  cwd: string; // 目前目錄，如 ~/about
+  user: string; // 目前使用者，主目錄為 /home/<user>
+}
+
+// 將 ~ 開頭的目錄拆成主目錄底下的路徑元件
+const splitDirectory = (directory: string): string[] => {
+  return directory.split('/').slice(1).filter(part => part);
+};
+
+// 將路徑元件組合回 ~ 開頭的目錄形式
+export const formatPath = (parts: string[]): string => {
+  return parts.length === 0 ? '~' : `~/${parts.join('/')}`;
+};
+
+// 將 ~ 開頭的目錄轉換為絕對路徑
+export const toAbsolutePath = (directory: string, user: string): string => `/home/${user}${directory.substring(1)}`;
+
+// 解析路徑，返回主目錄底下的路徑元件（主目錄本身為空陣列）
+// 主目錄以外的絕對路徑（如 /etc/passwd 或 ~root）不在虛擬檔案系統中，返回 null 供命令回報路徑不存在；.. 不會超出主目錄
+export const resolvePath = (path: string, context: PathContext): string[] | null => {
+  const homePath = `/home/${context.user}`;
+
+  // ~user 展開為該使用者的主目錄
+  if (path.startsWith('~') && path !== '~' && !path.startsWith('~/')) {
+    const slashIndex = path.indexOf('/');
+    const name = slashIndex === -1 ? path.substring(1) : path.substring(1, slashIndex);
+    const rest = slashIndex === -1 ? '' : path.substring(slashIndex);
+    return resolvePath(`/home/${name}${rest}`, context);
+  }
+
+  let parts: string[];
+  let relative: string;
+  if (path === '~' || path.startsWith('~/')) {
+    parts = [];
+    relative = path.substring(1);
+  } else if (path.startsWith('/')) {
+    if (path !== homePath && !path.startsWith(`${homePath}/`)) {
+      return null;
+    }
+    parts = [];
+    relative = path.substring(homePath.length);
+  } else {
+    parts = splitDirectory(context.cwd);
+    relative = path;
+  }
+
+  for (const part of relative.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return parts;
+};
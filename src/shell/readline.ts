@@ -0,0 +1,126 @@
+// 輸入行編輯：emacs 與 vi 風格的游標移動、刪除、對調與 kill ring，所有操作都返回新的輸入行狀態
+
+export interface LineState {
+  text: string;
+  cursor: number;
+}
+
+// kill ring 保留的文字數量
+const KILL_RING_SIZE = 10;
+
+// Alt+B、Alt+F 與 Alt+Backspace 的單字由字母與數字組成
+const isWordChar = (char: string): boolean => /[\p{L}\p{N}]/u.test(char);
+
+// 游標前一個單字的開頭，先略過游標前的非單字字元
+export const findWordStart = (text: string, cursor: number): number => {
+  let position = cursor;
+  while (position > 0 && !isWordChar(text[position - 1])) {
+    position--;
+  }
+  while (position > 0 && isWordChar(text[position - 1])) {
+    position--;
+  }
+  return position;
+};
+
+// 游標後一個單字的結尾，先略過游標後的非單字字元
+export const findWordEnd = (text: string, cursor: number): number => {
+  let position = cursor;
+  while (position < text.length && !isWordChar(text[position])) {
+    position++;
+  }
+  while (position < text.length && isWordChar(text[position])) {
+    position++;
+  }
+  return position;
+};
+
+// Ctrl+W 刪除的單字以空白分隔，如 "cat a/b.txt" 的 "a/b.txt"
+export const findUnixWordStart = (text: string, cursor: number): number => {
+  let position = cursor;
+  while (position > 0 && /\s/.test(text[position - 1])) {
+    position--;
+  }
+  while (position > 0 && !/\s/.test(text[position - 1])) {
+    position--;
+  }
+  return position;
+};
+
+// 刪除 [start, end) 的文字，游標移到刪除的位置
+export const deleteRange = ({ text }: LineState, start: number, end: number): LineState => {
+  return { text: text.substring(0, start) + text.substring(end), cursor: start };
+};
+
+// 在游標處插入文字，游標移到插入的文字之後
+export const insertText = ({ text, cursor }: LineState, inserted: string): LineState => {
+  return { text: text.substring(0, cursor) + inserted + text.substring(cursor), cursor: cursor + inserted.length };
+};
+
+// Ctrl+T 對調游標前後的字元並將游標往後移；游標在行尾時對調最後兩個字元
+export const transposeChars = (state: LineState): LineState => {
+  const { text } = state;
+  const cursor = Math.min(state.cursor, text.length - 1);
+  if (cursor < 1) {
+    return state;
+  }
+  return {
+    text: text.substring(0, cursor - 1) + text[cursor] + text[cursor - 1] + text.substring(cursor + 1),
+    cursor: cursor + 1
+  };
+};
+
+// 將刪除的文字加入 kill ring；append 時與上一次刪除的文字合併（向前刪除的文字加在前面），供連續的 Ctrl+K、Ctrl+W 一次貼上
+export const addToKillRing = (ring: string[], killed: string, append: 'before' | 'after' | null): string[] => {
+  if (append && ring.length > 0) {
+    return [append === 'before' ? killed + ring[0] : ring[0] + killed, ...ring.slice(1)];
+  }
+  return [killed, ...ring].slice(0, KILL_RING_SIZE);
+};
+
+// vi 的單字分為字母數字（含底線）與其他符號兩類，以空白或類別的變化分隔；0 表示空白或行尾
+const getViCharClass = (char: string | undefined): number => {
+  if (char === undefined || /\s/.test(char)) {
+    return 0;
+  }
+  return /[\p{L}\p{N}_]/u.test(char) ? 1 : 2;
+};
+
+// vi 的 w：下一個單字的開頭，沒有下一個單字時為行尾
+export const findNextViWord = (text: string, cursor: number): number => {
+  let position = cursor;
+  const charClass = getViCharClass(text[position]);
+  while (charClass !== 0 && position < text.length && getViCharClass(text[position]) === charClass) {
+    position++;
+  }
+  while (position < text.length && getViCharClass(text[position]) === 0) {
+    position++;
+  }
+  return position;
+};
+
+// vi 的 b：游標前（或游標所在）單字的開頭
+export const findPreviousViWord = (text: string, cursor: number): number => {
+  let position = cursor;
+  while (position > 0 && getViCharClass(text[position - 1]) === 0) {
+    position--;
+  }
+  const charClass = getViCharClass(text[position - 1]);
+  while (position > 0 && getViCharClass(text[position - 1]) === charClass) {
+    position--;
+  }
+  return position;
+};
+
+// vi 的 e：游標後（或游標所在）單字的最後一個字元
+export const findViWordEnd = (text: string, cursor: number): number => {
+  let position = cursor + 1;
+  while (position < text.length && getViCharClass(text[position]) === 0) {
+    position++;
+  }
+  const charClass = getViCharClass(text[position]);
+  while (position + 1 < text.length && getViCharClass(text[position + 1]) === charClass) {
+    position++;
+  }
+  return Math.max(Math.min(position, text.length - 1), 0);
+};
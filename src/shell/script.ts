@@ -0,0 +1,164 @@
+// 腳本語法分析：將多行腳本組合成命令、if 與 for 結構
+// 命令保留詞法單元，執行時才展開別名，使腳本中較早定義的別名對之後的命令生效
+import { isValidName } from './expand';
+import { ShellSyntaxError, Token, tokenize, WordToken } from './lexer';
+import { parseCommandList } from './parser';
+
+export interface ConditionalBranch {
+  condition: ScriptNode[];
+  body: ScriptNode[];
+}
+
+export type ScriptNode =
+  | { type: 'command', tokens: Token[] }
+  | { type: 'if', branches: ConditionalBranch[], elseBody: ScriptNode[] | null }
+  | { type: 'for', name: string, words: WordToken[], body: ScriptNode[] };
+
+const KEYWORDS = ['if', 'then', 'elif', 'else', 'fi', 'for', 'do', 'done'];
+
+// 以 ; 或換行分隔的敘述，keyword 為開頭的保留字（一般命令為 null）
+interface Statement {
+  keyword: string | null;
+  tokens: Token[];
+}
+
+// 只有命令位置上未加引號的單字才是保留字
+const getKeyword = (token: Token | undefined): string | null => {
+  if (!token || token.type !== 'word' || token.parts.some(part => part.quote !== 'none')) {
+    return null;
+  }
+  return KEYWORDS.includes(token.value) ? token.value : null;
+};
+
+const toStatements = (tokens: Token[], statements: Statement[]) => {
+  const keyword = getKeyword(tokens[0]);
+  const rest = tokens.slice(1);
+
+  if (!keyword) {
+    statements.push({ keyword: null, tokens });
+  } else if (keyword === 'for') {
+    // for 的其餘單字為迴圈標頭（NAME in ...）
+    statements.push({ keyword, tokens: rest });
+  } else if (keyword === 'fi' || keyword === 'done') {
+    if (rest.length > 0) {
+      throw new ShellSyntaxError('unexpected', rest[0].value);
+    }
+    statements.push({ keyword, tokens: [] });
+  } else {
+    // if、then、elif、else、do 後面可以直接接命令
+    statements.push({ keyword, tokens: [] });
+    if (rest.length > 0) {
+      toStatements(rest, statements);
+    }
+  }
+};
+
+// 整個腳本一次切分，跨行的引號與命令替換屬於同一個單字
+const splitStatements = (source: string): Statement[] => {
+  const statements: Statement[] = [];
+  let segment: Token[] = [];
+  for (const token of [...tokenize(source, true), null]) {
+    if (token && !(token.type === 'operator' && token.value === ';')) {
+      segment.push(token);
+      continue;
+    }
+    if (segment.length > 0) {
+      toStatements(segment, statements);
+    }
+    segment = [];
+  }
+  return statements;
+};
+
+export const parseScript = (source: string): ScriptNode[] => {
+  const statements = splitStatements(source);
+  let position = 0;
+
+  const unexpected = (statement: Statement) => {
+    return new ShellSyntaxError('unexpected', statement.keyword ?? statement.tokens[0].value);
+  };
+
+  const expect = (keyword: string) => {
+    const statement = statements[position];
+    if (!statement) {
+      throw new ShellSyntaxError('unterminated', keyword);
+    }
+    if (statement.keyword !== keyword) {
+      throw unexpected(statement);
+    }
+    position++;
+  };
+
+  // 解析到指定的保留字為止（不消耗該保留字），區塊不可為空
+  const parseBlock = (terminators: string[]): ScriptNode[] => {
+    const nodes: ScriptNode[] = [];
+    while (position < statements.length) {
+      const statement = statements[position];
+      if (statement.keyword && terminators.includes(statement.keyword)) {
+        if (nodes.length === 0) {
+          throw unexpected(statement);
+        }
+        return nodes;
+      }
+
+      position++;
+      if (!statement.keyword) {
+        // 先檢查語法，使錯誤在腳本開始執行前回報
+        parseCommandList(statement.tokens);
+        nodes.push({ type: 'command', tokens: statement.tokens });
+      } else if (statement.keyword === 'if') {
+        nodes.push(parseIf());
+      } else if (statement.keyword === 'for') {
+        nodes.push(parseFor(statement.tokens));
+      } else {
+        throw unexpected(statement);
+      }
+    }
+
+    if (terminators.length > 0) {
+      throw new ShellSyntaxError('unterminated', terminators[terminators.length - 1]);
+    }
+    return nodes;
+  };
+
+  const parseIf = (): ScriptNode => {
+    const branches: ConditionalBranch[] = [];
+    let keyword = 'if';
+    while (keyword === 'if' || keyword === 'elif') {
+      const condition = parseBlock(['then']);
+      expect('then');
+      const body = parseBlock(['elif', 'else', 'fi']);
+      branches.push({ condition, body });
+      keyword = statements[position].keyword as string;
+      position++;
+    }
+
+    let elseBody: ScriptNode[] | null = null;
+    if (keyword === 'else') {
+      elseBody = parseBlock(['fi']);
+      position++;
+    }
+    return { type: 'if', branches, elseBody };
+  };
+
+  const parseFor = (header: Token[]): ScriptNode => {
+    const [nameToken, inToken, ...wordTokens] = header;
+    if (!nameToken || nameToken.type !== 'word' || !isValidName(nameToken.value)) {
+      throw new ShellSyntaxError('unexpected', nameToken ? nameToken.value : 'newline');
+    }
+    if (inToken && (inToken.type !== 'word' || inToken.value !== 'in')) {
+      throw new ShellSyntaxError('unexpected', inToken.value);
+    }
+    const operator = wordTokens.find(token => token.type === 'operator');
+    if (operator) {
+      throw new ShellSyntaxError('unexpected', operator.value);
+    }
+
+    expect('do');
+    const body = parseBlock(['done']);
+    position++;
+    return { type: 'for', name: nameToken.value, words: wordTokens as WordToken[], body };
+  };
+
+  return parseBlock([]);
+};
@@ -0,0 +1,223 @@
+// 工作階段保存：將檔案系統的變更與終端機狀態存入 localStorage，重新載入頁面後恢復
+// 檔案系統只保存相對於出廠內容的覆蓋層，日後更新出廠內容時，未被修改的檔案會使用新的內容
+import type { Language } from '../commands/registry';
+import { FileSystem, FileSystemItem, SerializedItem } from './types';
+
+const SESSION_KEY = 'deviser-terminal-session';
+const THEME_KEY = 'deviser-terminal-theme';
+
+// 儲存格式的版本，格式改變時遞增並在 migrations 中轉換舊版本的資料
+const SESSION_VERSION = 1;
+
+// 將舊版本的資料轉換為下一個版本，鍵為舊版本號
+const migrations: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// 覆蓋層中的一個項目：刪除、新增或取代整個項目，或是更新目錄的屬性並遞迴套用其內容的變更
+type OverlayEntry =
+  | { op: 'delete' }
+  | { op: 'put'; item: SerializedItem }
+  | { op: 'merge'; permissions: string; owner: string; group: string; lastModified: number; content: Record<string, OverlayEntry> };
+
+export type Overlay = Record<string, OverlayEntry>;
+
+export interface SessionState {
+  overlay: Overlay;
+  commandHistory: string[];
+  currentDirectory: string;
+  language: Language;
+  isFullFeatured: boolean;
+}
+
+export type Theme = 'light' | 'dark';
+
+const serializeItem = (item: FileSystemItem): SerializedItem => {
+  const { permissions, owner, group } = item;
+  const lastModified = item.lastModified.getTime();
+  if (item.type === 'file') {
+    return { type: 'file', content: [...item.content], contentEn: item.contentEn && [...item.contentEn], permissions, owner, group, lastModified };
+  }
+  const content: Record<string, SerializedItem> = {};
+  for (const [name, child] of Object.entries(item.content)) {
+    content[name] = serializeItem(child);
+  }
+  return { type: 'directory', content, permissions, owner, group, lastModified };
+};
+
+// 還原為檔案系統項目，出廠內容也由建置時產生的資料以此建立
+export const deserializeItem = (item: SerializedItem): FileSystemItem => {
+  const { permissions, owner, group } = item;
+  const lastModified = new Date(item.lastModified);
+  if (item.type === 'file') {
+    return { type: 'file', content: [...item.content], contentEn: item.contentEn && [...item.contentEn], permissions, owner, group, lastModified };
+  }
+  const content: Record<string, FileSystemItem> = {};
+  for (const [name, child] of Object.entries(item.content)) {
+    content[name] = deserializeItem(child);
+  }
+  return { type: 'directory', content, permissions, owner, group, lastModified };
+};
+
+// 複製整個檔案系統，出廠內容保持不變，供比較與重設使用
+export const cloneFileSystem = (fileSystem: FileSystem): FileSystem => {
+  const clone: FileSystem = {};
+  for (const [name, item] of Object.entries(fileSystem)) {
+    clone[name] = deserializeItem(serializeItem(item));
+  }
+  return clone;
+};
+
+const isSameLines = (a: string[] | undefined, b: string[] | undefined): boolean => {
+  return a === b || (a !== undefined && b !== undefined && a.length === b.length && a.every((line, index) => line === b[index]));
+};
+
+const isSameAttributes = (a: FileSystemItem, b: FileSystemItem): boolean => {
+  return a.permissions === b.permissions && a.owner === b.owner && a.group === b.group && a.lastModified.getTime() === b.lastModified.getTime();
+};
+
+// 比較兩個目錄的內容，返回由 base 變成 current 所需的覆蓋層
+const diffContent = (base: Record<string, FileSystemItem>, current: Record<string, FileSystemItem>): Overlay => {
+  const overlay: Overlay = {};
+  for (const name of Object.keys(base)) {
+    if (!Object.prototype.hasOwnProperty.call(current, name)) {
+      overlay[name] = { op: 'delete' };
+    }
+  }
+  for (const [name, item] of Object.entries(current)) {
+    const original = Object.prototype.hasOwnProperty.call(base, name) ? base[name] : undefined;
+    if (original?.type === 'directory' && item.type === 'directory') {
+      const content = diffContent(original.content, item.content);
+      if (Object.keys(content).length > 0 || !isSameAttributes(original, item)) {
+        const { permissions, owner, group } = item;
+        overlay[name] = { op: 'merge', permissions, owner, group, lastModified: item.lastModified.getTime(), content };
+      }
+    } else if (
+      original?.type !== 'file' || item.type !== 'file' || !isSameAttributes(original, item) ||
+      !isSameLines(original.content, item.content) || !isSameLines(original.contentEn, item.contentEn)
+    ) {
+      overlay[name] = { op: 'put', item: serializeItem(item) };
+    }
+  }
+  return overlay;
+};
+
+export const diffFileSystem = (base: FileSystem, current: FileSystem): Overlay => diffContent(base, current);
+
+// 將覆蓋層套用到目錄內容上；出廠內容已不存在的目錄其變更會被略過，不會破壞新的檔案系統
+const applyContent = (content: Record<string, FileSystemItem>, overlay: Overlay): void => {
+  for (const [name, entry] of Object.entries(overlay)) {
+    if (entry.op === 'delete') {
+      delete content[name];
+    } else if (entry.op === 'put') {
+      content[name] = deserializeItem(entry.item);
+    } else {
+      const item = Object.prototype.hasOwnProperty.call(content, name) ? content[name] : undefined;
+      if (item?.type === 'directory') {
+        item.permissions = entry.permissions;
+        item.owner = entry.owner;
+        item.group = entry.group;
+        item.lastModified = new Date(entry.lastModified);
+        applyContent(item.content, entry.content);
+      }
+    }
+  }
+};
+
+export const applyOverlay = (fileSystem: FileSystem, overlay: Overlay): void => applyContent(fileSystem, overlay);
+
+// 最多保存的命令歷史數量
+const MAX_SAVED_HISTORY = 1000;
+
+// 檢查保存的資料格式：被截斷或手動修改的資料不能在套用時使終端機無法啟動
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(line => typeof line === 'string');
+};
+
+const hasAttributes = (value: Record<string, unknown>): boolean => {
+  return typeof value.permissions === 'string' && typeof value.owner === 'string' && typeof value.group === 'string' &&
+    typeof value.lastModified === 'number';
+};
+
+const isSerializedItem = (value: unknown): value is SerializedItem => {
+  if (!isRecord(value) || !hasAttributes(value)) {
+    return false;
+  }
+  if (value.type === 'file') {
+    return isStringArray(value.content) && (value.contentEn === undefined || isStringArray(value.contentEn));
+  }
+  return value.type === 'directory' && isRecord(value.content) && Object.values(value.content).every(isSerializedItem);
+};
+
+const isOverlay = (value: unknown): value is Overlay => {
+  return isRecord(value) && Object.values(value).every(entry => {
+    if (!isRecord(entry)) {
+      return false;
+    }
+    if (entry.op === 'delete') {
+      return true;
+    }
+    if (entry.op === 'put') {
+      return isSerializedItem(entry.item);
+    }
+    return entry.op === 'merge' && hasAttributes(entry) && isOverlay(entry.content);
+  });
+};
+
+const isSessionState = (value: unknown): value is SessionState => {
+  return isRecord(value) && isOverlay(value.overlay) && isStringArray(value.commandHistory) &&
+    typeof value.currentDirectory === 'string' && (value.language === 'zh_TW' || value.language === 'en_US') &&
+    typeof value.isFullFeatured === 'boolean';
+};
+
+// 讀取保存的工作階段，沒有資料、無法解析、格式錯誤或版本比目前新時返回 null
+export const loadSession = (): SessionState | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    if (!raw) {
+      return null;
+    }
+    let data = JSON.parse(raw) as Record<string, unknown>;
+    let version = typeof data.version === 'number' ? data.version : 0;
+    while (version < SESSION_VERSION && migrations[version]) {
+      data = migrations[version](data);
+      version++;
+    }
+    if (version !== SESSION_VERSION) {
+      return null;
+    }
+    return isSessionState(data.session) ? data.session : null;
+  } catch {
+    return null;
+  }
+};
+
+// 保存工作階段；儲存空間不可用或已滿時忽略
+export const saveSession = (session: SessionState): void => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify({
+      version: SESSION_VERSION,
+      session: { ...session, commandHistory: session.commandHistory.slice(-MAX_SAVED_HISTORY) }
+    }));
+  } catch {
+    // 無法保存時維持目前的工作階段即可
+  }
+};
+
+export const loadTheme = (): Theme => {
+  try {
+    return localStorage.getItem(THEME_KEY) === 'light' ? 'light' : 'dark';
+  } catch {
+    return 'dark';
+  }
+};
+
+export const saveTheme = (theme: Theme): void => {
+  try {
+    localStorage.setItem(THEME_KEY, theme);
+  } catch {
+    // 無法保存時只在本次工作階段中生效
+  }
+};
@@ -0,0 +1,76 @@
+// test 與 [ 命令的條件判斷：字串、整數比較與檔案檢查
+import { PathLookup } from './glob';
+
+// status 為 0 表示條件成立、1 表示不成立，2 表示語法錯誤（附帶 error 訊息）
+export interface TestResult {
+  status: number;
+  error?: string;
+}
+
+const INTEGER_OPERATORS: Record<string, (a: number, b: number) => boolean> = {
+  '-eq': (a, b) => a === b,
+  '-ne': (a, b) => a !== b,
+  '-lt': (a, b) => a < b,
+  '-le': (a, b) => a <= b,
+  '-gt': (a, b) => a > b,
+  '-ge': (a, b) => a >= b
+};
+
+const toStatus = (condition: boolean): TestResult => ({ status: condition ? 0 : 1 });
+
+export const evaluateTest = (name: string, args: string[], lookup: PathLookup): TestResult => {
+  // 開頭的 ! 反轉結果
+  if (args[0] === '!' && args.length > 1) {
+    const result = evaluateTest(name, args.slice(1), lookup);
+    return result.error ? result : toStatus(result.status !== 0);
+  }
+
+  if (args.length === 0) {
+    return toStatus(false);
+  }
+
+  if (args.length === 1) {
+    return toStatus(args[0] !== '');
+  }
+
+  if (args.length === 2) {
+    const [operator, operand] = args;
+    const item = operator === '-e' || operator === '-f' || operator === '-d' ? lookup(operand) : null;
+    switch (operator) {
+      case '-z':
+        return toStatus(operand === '');
+      case '-n':
+        return toStatus(operand !== '');
+      case '-e':
+        return toStatus(item !== null);
+      case '-f':
+        return toStatus(item?.type === 'file');
+      case '-d':
+        return toStatus(item?.type === 'directory');
+      default:
+        return { status: 2, error: `${name}: ${operator}: unary operator expected` };
+    }
+  }
+
+  if (args.length === 3) {
+    const [left, operator, right] = args;
+    if (operator === '=' || operator === '==') {
+      return toStatus(left === right);
+    }
+    if (operator === '!=') {
+      return toStatus(left !== right);
+    }
+
+    const compare = INTEGER_OPERATORS[operator];
+    if (!compare) {
+      return { status: 2, error: `${name}: ${operator}: binary operator expected` };
+    }
+    const invalid = [left, right].find(value => !/^\s*[-+]?\d+\s*$/.test(value));
+    if (invalid !== undefined) {
+      return { status: 2, error: `${name}: ${invalid}: integer expression expected` };
+    }
+    return toStatus(compare(parseInt(left, 10), parseInt(right, 10)));
+  }
+
+  return { status: 2, error: `${name}: too many arguments` };
+};
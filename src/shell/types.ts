@@ -0,0 +1,30 @@
+// 定義檔案系統的類型
+export interface FileItem {
+  type: 'file';
+  content: string[];
+  contentEn?: string[]; // 英文內容
+  permissions: string; // 如 "rw-r--r--"
+  owner: string;
+  group: string;
+  lastModified: Date;
+}
+
+export interface DirectoryItem {
+  type: 'directory';
+  content: Record<string, FileSystemItem>;
+  permissions: string; // 如 "rwxr-xr-x"
+  owner: string;
+  group: string;
+  lastModified: Date;
+}
+
+export type FileSystemItem = FileItem | DirectoryItem;
+
+export interface FileSystem {
+  [key: string]: FileSystemItem;
+}
+
+// 可序列化的項目，日期以毫秒數表示；用於保存工作階段，以及建置時由 content/ 資料夾產生的檔案系統
+export type SerializedItem =
+  | { type: 'file'; content: string[]; contentEn?: string[]; permissions: string; owner: string; group: string; lastModified: number }
+  | { type: 'directory'; content: Record<string, SerializedItem>; permissions: string; owner: string; group: string; lastModified: number };
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+// 建置時由 content/ 資料夾產生的主目錄，見 plugins/content.ts
+declare module 'virtual:file-system' {
+  const home: import('./shell/types').SerializedItem;
+  export default home;
+}